@@ -0,0 +1,54 @@
+import { test, expect, describe } from 'bun:test';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { None } from 'option-pattern/option';
+import {
+  BitwiseBuiltinRunner,
+  BitwiseInputOutOfBoundsError,
+  BitwiseNotFeltError,
+} from './bitwise';
+
+describe('BitwiseBuiltinRunner', () => {
+  const setup = () => {
+    const segments = new MemorySegmentManager();
+    const bitwise = new BitwiseBuiltinRunner(segments);
+    bitwise.addValidationRule(segments.memory);
+    bitwise.addDeductionRule(segments.memory);
+    const base = bitwise.getBase();
+    const cell = (offset: number) =>
+      new Relocatable(base.getSegmentIndex(), offset);
+    return { memory: segments.memory, cell };
+  };
+
+  test('should deduce x & y, x ^ y and x | y', () => {
+    const { memory, cell } = setup();
+    memory.insert(cell(5), new Felt(0b1100n)).unwrap();
+    memory.insert(cell(6), new Felt(0b1010n)).unwrap();
+
+    expect(
+      [7, 8, 9].map((offset) => memory.get(cell(offset)).unwrap())
+    ).toEqual([new Felt(0b1000n), new Felt(0b0110n), new Felt(0b1110n)]);
+  });
+
+  test('should not deduce an output if an input is missing', () => {
+    const { memory, cell } = setup();
+    memory.insert(cell(0), new Felt(1n)).unwrap();
+
+    expect(memory.get(cell(2))).toEqual(new None());
+  });
+
+  test('should return an error for an input of at least 2^251', () => {
+    const { memory, cell } = setup();
+    expect(memory.insert(cell(1), new Felt(1n << 251n)).unwrapErr()).toEqual(
+      BitwiseInputOutOfBoundsError
+    );
+  });
+
+  test('should return an error for a relocatable input', () => {
+    const { memory, cell } = setup();
+    expect(memory.insert(cell(0), new Relocatable(0, 0)).unwrapErr()).toEqual(
+      BitwiseNotFeltError
+    );
+  });
+});
@@ -0,0 +1,52 @@
+import { Memory } from 'memory/memory';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { Option, Some } from 'option-pattern/option';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { BaseBuiltinRunner } from './builtin';
+
+export const BitwiseNotFeltError = {
+  message: 'BitwiseBuiltinError: bitwise inputs must be felts',
+};
+
+export const BitwiseInputOutOfBoundsError = {
+  message: 'BitwiseBuiltinError: bitwise inputs must be below 2^251',
+};
+
+// Each instance of the bitwise builtin is made of two input cells, x and y,
+// and three output cells, deduced as x & y, x ^ y and x | y.
+export class BitwiseBuiltinRunner extends BaseBuiltinRunner {
+  static readonly BOUND = 1n << 251n;
+
+  readonly name = 'bitwise';
+  readonly cellsPerInstance = 5;
+  readonly nInputCells = 2;
+  protected privateInputNames = ['x', 'y'];
+
+  // Inputs are checked when written, so that deductions cannot fail.
+  addValidationRule(memory: Memory) {
+    memory.addValidationRule(
+      this.getBase().getSegmentIndex(),
+      (memory, address) => this.validate(memory, address)
+    );
+  }
+
+  validate(memory: Memory, address: Relocatable): Result<true, VMError> {
+    if (address.getOffset() % this.cellsPerInstance >= this.nInputCells) {
+      return new Ok(true as const);
+    }
+    const value = memory.get(address).unwrap();
+    if (!(value instanceof Felt)) {
+      return new Err(BitwiseNotFeltError);
+    }
+    if (value.toBigInt() >= BitwiseBuiltinRunner.BOUND) {
+      return new Err(BitwiseInputOutOfBoundsError);
+    }
+    return new Ok(true as const);
+  }
+
+  protected computeOutputs([x, y]: Felt[]): Option<Felt[]> {
+    const [a, b] = [x.toBigInt(), y.toBigInt()];
+    return new Some([a & b, a ^ b, a | b].map((n) => x.field.reduce(n)));
+  }
+}
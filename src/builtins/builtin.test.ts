@@ -0,0 +1,122 @@
+import { test, expect, describe } from 'bun:test';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import {
+  InsufficientAllocatedCellsError,
+  InsufficientStepsError,
+  InvalidStopPointerError,
+  MissingStopPointerError,
+} from './builtin';
+import { OutputBuiltinRunner } from './output';
+
+describe('BaseBuiltinRunner', () => {
+  // The output builtin is used as the simplest concrete builtin.
+  const setup = () => {
+    const segments = new MemorySegmentManager();
+    segments.addSegment();
+    const execution = segments.addSegment();
+    const builtin = new OutputBuiltinRunner(segments);
+    return { segments, execution, builtin };
+  };
+
+  describe('constructor', () => {
+    test('should create the builtin segment', () => {
+      const { builtin } = setup();
+      expect(builtin.getBase()).toEqual(new Relocatable(2, 0));
+    });
+  });
+
+  describe('initialStack', () => {
+    test('should return the builtin base if included', () => {
+      const { builtin } = setup();
+      expect(builtin.initialStack()).toEqual([new Relocatable(2, 0)]);
+    });
+
+    test('should be empty if not included', () => {
+      const { builtin } = setup();
+      builtin.included = false;
+      expect(builtin.initialStack()).toEqual([]);
+    });
+  });
+
+  describe('getUsedCells', () => {
+    test('should return the size of the builtin segment', () => {
+      const { segments, builtin } = setup();
+      segments.loadData(builtin.getBase(), [new Felt(1n), new Felt(2n)]);
+      expect(builtin.getUsedCells(segments)).toEqual(2);
+      expect(builtin.getUsedInstances(segments)).toEqual(2);
+    });
+  });
+
+  describe('finalStack', () => {
+    test('should read the stop pointer before the given pointer', () => {
+      const { segments, execution, builtin } = setup();
+      segments.loadData(builtin.getBase(), [new Felt(1n)]);
+      segments.loadData(execution, [new Relocatable(2, 1)]);
+      const pointer = builtin
+        .finalStack(segments, new Relocatable(1, 1))
+        .unwrap();
+
+      expect(pointer).toEqual(new Relocatable(1, 0));
+      expect(builtin.getStopPointer()).toEqual(new Relocatable(2, 1));
+    });
+
+    test('should not read anything if not included', () => {
+      const { segments, builtin } = setup();
+      builtin.included = false;
+      const pointer = builtin
+        .finalStack(segments, new Relocatable(1, 1))
+        .unwrap();
+
+      expect(pointer).toEqual(new Relocatable(1, 1));
+    });
+
+    test('should return an error if the stop pointer is missing', () => {
+      const { segments, builtin } = setup();
+      const result = builtin.finalStack(segments, new Relocatable(1, 1));
+
+      expect(result.unwrapErr()).toEqual(MissingStopPointerError);
+    });
+
+    test('should return an error if the stop pointer does not match the used cells', () => {
+      const { segments, execution, builtin } = setup();
+      segments.loadData(builtin.getBase(), [new Felt(1n)]);
+      segments.loadData(execution, [new Relocatable(2, 0)]);
+      const result = builtin.finalStack(segments, new Relocatable(1, 1));
+
+      expect(result.unwrapErr()).toEqual(InvalidStopPointerError);
+    });
+  });
+
+  describe('checkUsedCells', () => {
+    test('should allocate the used instances without ratio', () => {
+      const { segments, builtin } = setup();
+      segments.loadData(builtin.getBase(), [new Felt(1n), new Felt(2n)]);
+
+      expect(builtin.getAllocatedInstances(segments, 1).unwrap()).toEqual(2);
+      builtin.checkUsedCells(segments, 1).unwrap();
+    });
+
+    test('should allocate an instance every ratio steps', () => {
+      const { segments, builtin } = setup();
+      builtin.ratio = 4;
+      segments.loadData(builtin.getBase(), [new Felt(1n), new Felt(2n)]);
+
+      expect(builtin.getAllocatedInstances(segments, 9).unwrap()).toEqual(2);
+      builtin.checkUsedCells(segments, 9).unwrap();
+      expect(builtin.checkUsedCells(segments, 7).unwrapErr()).toEqual({
+        message: `${InsufficientAllocatedCellsError.message}: output`,
+      });
+    });
+
+    test('should return an error for less steps than the ratio', () => {
+      const { segments, builtin } = setup();
+      builtin.ratio = 4;
+
+      expect(builtin.checkUsedCells(segments, 3).unwrapErr()).toEqual({
+        message: `${InsufficientStepsError.message}: output needs at least 4 steps`,
+      });
+    });
+  });
+});
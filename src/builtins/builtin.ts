@@ -0,0 +1,279 @@
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Memory } from 'memory/memory';
+import { Felt } from 'primitives/felt';
+import { MaybeRelocatable, Relocatable } from 'primitives/relocatable';
+import { None, Option, Some } from 'option-pattern/option';
+import { Uint32, UnsignedInteger } from 'primitives/uint';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+
+export const MissingStopPointerError = {
+  message: 'BuiltinError: stop pointer of the builtin is not in memory',
+};
+
+export const InvalidStopPointerError = {
+  message:
+    'BuiltinError: stop pointer does not match the cells used by the builtin',
+};
+
+export const InsufficientStepsError = {
+  message: 'BuiltinError: not enough steps for the builtin ratio',
+};
+
+export const InsufficientAllocatedCellsError = {
+  message: 'BuiltinError: builtin uses more cells than the layout allocates',
+};
+
+// Inputs of an instance of a builtin in the AIR private input,
+// as hexadecimal strings, e.g. `{ index: 0, x: '0x1', y: '0x2' }`.
+export type PrivateInput = {
+  index: number;
+  [input: string]: number | string | Record<string, string>;
+};
+
+/**
+ * Builtins are memory-mapped: a program uses a builtin by writing to
+ * and reading from its dedicated segment, whose cells are grouped in instances.
+ * The VM enforces the builtin semantics through memory validation rules.
+ */
+export interface BuiltinRunner {
+  // Name of the builtin, as declared in the program `%builtins` directive.
+  readonly name: string;
+  // Number of memory cells of an instance of the builtin.
+  readonly cellsPerInstance: number;
+  // Number of input cells of an instance, the others are outputs.
+  readonly nInputCells: number;
+  // Whether the builtin is used by the program.
+  included: boolean;
+  // Steps per instance of the builtin in the layout of the run, if bounded.
+  ratio: number | undefined;
+
+  // Base of the builtin segment, created with the builtin.
+  getBase(): Relocatable;
+
+  // Pointers passed to `main`: the builtin base, if included.
+  initialStack(): MaybeRelocatable[];
+
+  // Attach the builtin validation rules to its segment.
+  addValidationRule(memory: Memory): void;
+
+  // Attach the rules deducing the output cells of the builtin to its segment.
+  addDeductionRule(memory: Memory): void;
+
+  // Check the stop pointer returned by `main`, located right before `pointer`,
+  // and return the pointer to the next return value.
+  finalStack(
+    segments: MemorySegmentManager,
+    pointer: Relocatable
+  ): Result<Relocatable, VMError>;
+
+  getUsedCells(segments: MemorySegmentManager): Uint32;
+
+  getUsedInstances(segments: MemorySegmentManager): Uint32;
+
+  // Instances allocated by the layout to a run of the given steps.
+  getAllocatedInstances(
+    segments: MemorySegmentManager,
+    steps: number
+  ): Result<number, VMError>;
+
+  // Check that the used cells fit in the allocated instances.
+  checkUsedCells(
+    segments: MemorySegmentManager,
+    steps: number
+  ): Result<true, VMError>;
+
+  // Inputs of the instances written by the program, for the prover.
+  airPrivateInput(segments: MemorySegmentManager): PrivateInput[];
+}
+
+// Behaviour shared by all the builtins.
+export abstract class BaseBuiltinRunner implements BuiltinRunner {
+  abstract readonly name: string;
+  abstract readonly cellsPerInstance: number;
+  abstract readonly nInputCells: number;
+  included: boolean;
+  ratio: number | undefined;
+  // Instances of the builtin proven together, the allocated instances
+  // come by multiples of it.
+  protected instancesPerComponent = 1;
+  protected readonly base: Relocatable;
+  private stopPtr: Relocatable | undefined;
+  // Outputs of the instances deduced so far, by offset of the instance.
+  private deducedOutputs: Map<number, Felt[]>;
+
+  constructor(segments: MemorySegmentManager, included: boolean = true) {
+    this.base = segments.addSegment();
+    this.included = included;
+    this.deducedOutputs = new Map();
+  }
+
+  // Compute the output cells of an instance from its input cells,
+  // for the builtins whose outputs are deduced.
+  protected computeOutputs?(inputs: Felt[]): Option<Felt[]>;
+
+  // Names of the input cells in the AIR private input,
+  // for the builtins which have one.
+  protected privateInputNames?: string[];
+
+  getBase(): Relocatable {
+    return this.base;
+  }
+
+  getStopPointer(): Relocatable | undefined {
+    return this.stopPtr;
+  }
+
+  initialStack(): MaybeRelocatable[] {
+    return this.included ? [this.getBase()] : [];
+  }
+
+  addValidationRule(memory: Memory) {}
+
+  addDeductionRule(memory: Memory) {
+    if (this.computeOutputs !== undefined) {
+      memory.addDeductionRule(
+        this.getBase().getSegmentIndex(),
+        (memory, address) => this.deduce(memory, address)
+      );
+    }
+  }
+
+  // Deduce an output cell once all the input cells of its instance
+  // are written. All the outputs of an instance are computed at once.
+  deduce(memory: Memory, address: Relocatable): Option<MaybeRelocatable> {
+    const index = address.getOffset() % this.cellsPerInstance;
+    if (index < this.nInputCells || this.computeOutputs === undefined) {
+      return new None();
+    }
+
+    const start = address.getOffset() - index;
+    let outputs = this.deducedOutputs.get(start);
+    if (outputs === undefined) {
+      const inputs: Felt[] = [];
+      for (let i = 0; i < this.nInputCells; i++) {
+        const input = memory.get(
+          new Relocatable(address.getSegmentIndex(), start + i)
+        );
+        if (input.isNone() || !(input.unwrap() instanceof Felt)) {
+          return new None();
+        }
+        inputs.push(input.unwrap() as Felt);
+      }
+      const computed = this.computeOutputs(inputs);
+      if (computed.isNone()) {
+        return new None();
+      }
+      outputs = computed.unwrap();
+      this.deducedOutputs.set(start, outputs);
+    }
+
+    return new Some(outputs[index - this.nInputCells]);
+  }
+
+  finalStack(
+    segments: MemorySegmentManager,
+    pointer: Relocatable
+  ): Result<Relocatable, VMError> {
+    if (!this.included) {
+      return new Ok(pointer);
+    }
+
+    const stopPtrAddress = pointer.sub(UnsignedInteger.toUint32(1).unwrap());
+    if (stopPtrAddress.isErr()) {
+      return stopPtrAddress;
+    }
+    const stopPtr = segments.memory.get(stopPtrAddress.unwrap());
+    if (stopPtr.isNone()) {
+      return new Err(MissingStopPointerError);
+    }
+
+    const value = stopPtr.unwrap();
+    if (
+      !(value instanceof Relocatable) ||
+      value.getSegmentIndex() !== this.getBase().getSegmentIndex() ||
+      value.getOffset() !== this.getUsedCells(segments)
+    ) {
+      return new Err(InvalidStopPointerError);
+    }
+
+    this.stopPtr = value;
+    return stopPtrAddress;
+  }
+
+  // The largest written offset of the segment + 1.
+  getUsedCells(segments: MemorySegmentManager): Uint32 {
+    const segment = segments.memory.data[this.getBase().getSegmentIndex()];
+    return UnsignedInteger.toUint32(segment.length).unwrap();
+  }
+
+  getUsedInstances(segments: MemorySegmentManager): Uint32 {
+    return UnsignedInteger.toUint32(
+      Math.ceil(this.getUsedCells(segments) / this.cellsPerInstance)
+    ).unwrap();
+  }
+
+  // One instance every `ratio` steps, or the used instances without ratio.
+  getAllocatedInstances(
+    segments: MemorySegmentManager,
+    steps: number
+  ): Result<number, VMError> {
+    if (this.ratio === undefined) {
+      return new Ok(this.getUsedInstances(segments));
+    }
+    const minSteps = this.ratio * this.instancesPerComponent;
+    if (steps < minSteps) {
+      return new Err({
+        message: `${InsufficientStepsError.message}: ${this.name} needs at least ${minSteps} steps`,
+      });
+    }
+    return new Ok(Math.floor(steps / this.ratio));
+  }
+
+  checkUsedCells(
+    segments: MemorySegmentManager,
+    steps: number
+  ): Result<true, VMError> {
+    const instances = this.getAllocatedInstances(segments, steps);
+    if (instances.isErr()) {
+      return instances;
+    }
+    const allocatedCells = instances.unwrap() * this.cellsPerInstance;
+    if (this.getUsedCells(segments) > allocatedCells) {
+      return new Err({
+        message: `${InsufficientAllocatedCellsError.message}: ${this.name}`,
+      });
+    }
+    return new Ok(true as const);
+  }
+
+  // The instances whose input cells are all written felts.
+  airPrivateInput(segments: MemorySegmentManager): PrivateInput[] {
+    if (this.privateInputNames === undefined) {
+      return [];
+    }
+    const inputs: PrivateInput[] = [];
+    const segment = this.getBase().getSegmentIndex();
+    const usedInstances = this.getUsedInstances(segments);
+    for (let index = 0; index < usedInstances; index++) {
+      const input: PrivateInput = { index };
+      const complete = this.privateInputNames.every((name, cell) => {
+        const value = segments.memory.get(
+          new Relocatable(segment, index * this.cellsPerInstance + cell)
+        );
+        if (value.isNone() || !(value.unwrap() instanceof Felt)) {
+          return false;
+        }
+        input[name] = toHex(value.unwrap() as Felt);
+        return true;
+      });
+      if (complete) {
+        inputs.push(input);
+      }
+    }
+    return inputs;
+  }
+}
+
+export function toHex(value: Felt): string {
+  return `0x${value.toHexString()}`;
+}
@@ -0,0 +1,42 @@
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { BuiltinRunner } from './builtin';
+import { BitwiseBuiltinRunner } from './bitwise';
+import { EcOpBuiltinRunner } from './ecOp';
+import { EcdsaBuiltinRunner } from './ecdsa';
+import { KeccakBuiltinRunner } from './keccak';
+import { OutputBuiltinRunner } from './output';
+import { PedersenBuiltinRunner } from './pedersen';
+import { PoseidonBuiltinRunner } from './poseidon';
+import { RangeCheckBuiltinRunner } from './rangeCheck';
+
+export const UnknownBuiltinError = {
+  message: 'BuiltinError: program declares an unknown builtin',
+};
+
+// Builtins supported by the VM, by name.
+const BUILTIN_RUNNERS: Record<
+  string,
+  (segments: MemorySegmentManager) => BuiltinRunner
+> = {
+  output: (segments) => new OutputBuiltinRunner(segments),
+  pedersen: (segments) => new PedersenBuiltinRunner(segments),
+  range_check: (segments) => new RangeCheckBuiltinRunner(segments),
+  ecdsa: (segments) => new EcdsaBuiltinRunner(segments),
+  bitwise: (segments) => new BitwiseBuiltinRunner(segments),
+  ec_op: (segments) => new EcOpBuiltinRunner(segments),
+  keccak: (segments) => new KeccakBuiltinRunner(segments),
+  poseidon: (segments) => new PoseidonBuiltinRunner(segments),
+};
+
+// Create a builtin and its segment.
+export function createBuiltinRunner(
+  name: string,
+  segments: MemorySegmentManager
+): Result<BuiltinRunner, VMError> {
+  const create = BUILTIN_RUNNERS[name];
+  if (create === undefined) {
+    return new Err(UnknownBuiltinError);
+  }
+  return new Ok(create(segments));
+}
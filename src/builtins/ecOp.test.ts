@@ -0,0 +1,68 @@
+import { test, expect, describe } from 'bun:test';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import {
+  EcOpBuiltinRunner,
+  EcOpPointNotOnCurveError,
+  EcOpSameXError,
+} from './ecOp';
+
+// P and Q are the first two constant points of the Pedersen hash.
+const P = [
+  new Felt(0x234287dcbaffe7f969c748655fca9e58fa8120b6d56eb0c1080d17957ebe47bn),
+  new Felt(0x3b056f100f96fb21e889527d41f4e39940135dd7a6c94cc6ed0268ee89e5615n),
+];
+const Q = [
+  new Felt(0x4fa56f376c83db33f9dab2656558f3399099ec1de5e3018b7a6932dba8aa378n),
+  new Felt(0x3fa0984c931c9e38113e0c0e47e4401562761f92a7a23b45168f4e80ff5b54dn),
+];
+
+describe('EcOpBuiltinRunner', () => {
+  const setup = () => {
+    const segments = new MemorySegmentManager();
+    const ecOp = new EcOpBuiltinRunner(segments);
+    ecOp.addValidationRule(segments.memory);
+    ecOp.addDeductionRule(segments.memory);
+    const base = ecOp.getBase();
+    const output = (offset: number) =>
+      segments.memory.get(new Relocatable(base.getSegmentIndex(), offset));
+    return { segments, base, output };
+  };
+
+  test('should deduce P + m * Q', () => {
+    const { segments, base, output } = setup();
+    segments.loadData(base, [...P, ...Q, new Felt(0x1234n)]).unwrap();
+
+    expect([output(5).unwrap(), output(6).unwrap()]).toEqual([
+      new Felt(
+        0x7e0b3b67e9ca28aea295fb7669620b82b598e8efcbfb7eb319bfd0786ee462en
+      ),
+      new Felt(
+        0x12ae715840679749d247b66180a347c21c8536244de51a4219630e5353826b1n
+      ),
+    ]);
+  });
+
+  test('should deduce P for a zero scalar', () => {
+    const { segments, base, output } = setup();
+    segments.loadData(base, [...P, ...Q, new Felt(0n)]).unwrap();
+
+    expect([output(5).unwrap(), output(6).unwrap()]).toEqual(P);
+  });
+
+  test('should return an error for a point off the curve', () => {
+    const { segments, base } = setup();
+    const offCurve = [...P, Q[0], Q[1].add(new Felt(1n))];
+    expect(segments.loadData(base, offCurve).unwrapErr()).toEqual(
+      EcOpPointNotOnCurveError
+    );
+  });
+
+  test('should return an error if P and m * Q have the same x coordinate', () => {
+    const { segments, base } = setup();
+    expect(
+      segments.loadData(base, [...P, ...P, new Felt(1n)]).unwrapErr()
+    ).toEqual(EcOpSameXError);
+  });
+});
@@ -0,0 +1,123 @@
+import { Memory } from 'memory/memory';
+import { EcPoint } from 'primitives/ecPoint';
+import { Felt, Field } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { None, Option, Some } from 'option-pattern/option';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { BaseBuiltinRunner } from './builtin';
+
+export const EcOpNotFeltError = {
+  message: 'EcOpBuiltinError: EC op inputs must be felts',
+};
+
+export const EcOpFieldError = {
+  message:
+    'EcOpBuiltinError: the STARK curve is only defined over the Starknet field',
+};
+
+export const EcOpPointNotOnCurveError = {
+  message: 'EcOpBuiltinError: point is not on the STARK curve',
+};
+
+export const EcOpSameXError = {
+  message:
+    'EcOpBuiltinError: P + m * Q adds two points with the same x coordinate',
+};
+
+// Each instance of the EC op builtin is made of five input cells,
+// the points P and Q of the STARK curve and a scalar m, and two output cells,
+// deduced as the coordinates of P + m * Q.
+export class EcOpBuiltinRunner extends BaseBuiltinRunner {
+  readonly name = 'ec_op';
+  readonly cellsPerInstance = 7;
+  readonly nInputCells = 5;
+  protected privateInputNames = ['p_x', 'p_y', 'q_x', 'q_y', 'm'];
+
+  // Inputs are checked when written, so that deductions cannot fail:
+  // each point once both its coordinates are written, the sum once
+  // all the inputs are.
+  addValidationRule(memory: Memory) {
+    memory.addValidationRule(
+      this.getBase().getSegmentIndex(),
+      (memory, address) => this.validate(memory, address)
+    );
+  }
+
+  validate(memory: Memory, address: Relocatable): Result<true, VMError> {
+    const index = address.getOffset() % this.cellsPerInstance;
+    if (index >= this.nInputCells) {
+      return new Ok(true as const);
+    }
+    const value = memory.get(address).unwrap();
+    if (!(value instanceof Felt)) {
+      return new Err(EcOpNotFeltError);
+    }
+    if (value.field.prime !== Field.STARKNET.prime) {
+      return new Err(EcOpFieldError);
+    }
+
+    const start = address.getOffset() - index;
+    const inputs: Option<Felt>[] = [];
+    for (let i = 0; i < this.nInputCells; i++) {
+      const input = memory.get(
+        new Relocatable(address.getSegmentIndex(), start + i)
+      );
+      inputs.push(
+        input.isSome() && input.unwrap() instanceof Felt
+          ? new Some(input.unwrap() as Felt)
+          : new None()
+      );
+    }
+
+    // The point of the written coordinate, once both are written.
+    const x = inputs[index - (index % 2)];
+    const y = inputs[index - (index % 2) + 1];
+    if (index < 4 && x.isSome() && y.isSome()) {
+      if (!new EcPoint(x.unwrap(), y.unwrap()).isOnCurve()) {
+        return new Err(EcOpPointNotOnCurveError);
+      }
+    }
+    if (inputs.every((input) => input.isSome())) {
+      const [px, py, qx, qy, m] = inputs.map((input) => input.unwrap());
+      const result = ecOp(new EcPoint(px, py), new EcPoint(qx, qy), m);
+      if (result.isErr()) {
+        return result;
+      }
+    }
+    return new Ok(true as const);
+  }
+
+  protected computeOutputs([px, py, qx, qy, m]: Felt[]): Option<Felt[]> {
+    if (px.field.prime !== Field.STARKNET.prime) {
+      return new None();
+    }
+    const p = new EcPoint(px, py);
+    const q = new EcPoint(qx, qy);
+    if (!p.isOnCurve() || !q.isOnCurve()) {
+      return new None();
+    }
+    const result = ecOp(p, q, m);
+    if (result.isErr()) {
+      return new None();
+    }
+    // The coordinates are felts of the VM field, not of the curve constants.
+    const { x, y } = result.unwrap();
+    return new Some([px.field.felt(x.toBigInt()), px.field.felt(y.toBigInt())]);
+  }
+}
+
+// P + m * Q, for points of the STARK curve.
+function ecOp(p: EcPoint, q: EcPoint, m: Felt): Result<EcPoint, VMError> {
+  if (m.isZero()) {
+    return new Ok(p);
+  }
+  const mq = q.mul(m.toBigInt());
+  if (mq.isErr()) {
+    return new Err(EcOpSameXError);
+  }
+  const result = p.add(mq.unwrap());
+  if (result.isErr()) {
+    return new Err(EcOpSameXError);
+  }
+  return result;
+}
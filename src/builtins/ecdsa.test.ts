@@ -0,0 +1,129 @@
+import { test, expect, describe } from 'bun:test';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { STARK_CURVE } from 'primitives/ecPoint';
+import { Felt, Field } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import {
+  EcdsaBuiltinRunner,
+  EcdsaInvalidSignatureError,
+  EcdsaMissingSignatureError,
+  EcdsaNotFeltError,
+  EcdsaSignatureAddressError,
+  verifyEcdsaSignature,
+} from './ecdsa';
+
+// Signature of MESSAGE by the private key
+// 0x3c1e9550e66958296d11b60f8e8e7a7ad990d07fa65d5f7652c4a6c87d4e3cc.
+const PUBLIC_KEY = new Felt(
+  0x77a3b314db07c45076d11f62b6f9e748a39790441823307743cf00d6597ea43n
+);
+const MESSAGE = new Felt(0x1234567890abcdefn);
+const SIGNATURE = {
+  r: new Felt(
+    0x36c8dc5617819a0c283a12a46dd79fa5f2826e2dea6cd9fd83be32fbe4e0118n
+  ),
+  s: new Felt(
+    0x59ad18945af28b0c6170206d9749b6127eb0048a6eb81871433f596baeecd00n
+  ),
+};
+
+describe('verifyEcdsaSignature', () => {
+  test('should accept a valid signature', () => {
+    expect(verifyEcdsaSignature(MESSAGE, PUBLIC_KEY, SIGNATURE)).toBeTrue();
+  });
+
+  test('should reject the signature of another message', () => {
+    const message = MESSAGE.add(new Felt(1n));
+    expect(verifyEcdsaSignature(message, PUBLIC_KEY, SIGNATURE)).toBeFalse();
+  });
+
+  test('should reject a zero s', () => {
+    const signature = { r: SIGNATURE.r, s: new Felt(0n) };
+    expect(verifyEcdsaSignature(MESSAGE, PUBLIC_KEY, signature)).toBeFalse();
+  });
+
+  test('should reject an s whose inverse is not below 2^251', () => {
+    const scalars = new Field(STARK_CURVE.order);
+    const s = scalars
+      .felt(1n << 251n)
+      .inv()
+      .unwrap();
+    const signature = { r: SIGNATURE.r, s: new Felt(s.toBigInt()) };
+    expect(verifyEcdsaSignature(MESSAGE, PUBLIC_KEY, signature)).toBeFalse();
+  });
+});
+
+describe('EcdsaBuiltinRunner', () => {
+  const setup = () => {
+    const segments = new MemorySegmentManager();
+    const ecdsa = new EcdsaBuiltinRunner(segments);
+    ecdsa.addValidationRule(segments.memory);
+    const base = ecdsa.getBase();
+    const message = new Relocatable(base.getSegmentIndex(), 1);
+    return { segments, memory: segments.memory, ecdsa, base, message };
+  };
+
+  test('should accept the public key and message of a registered signature', () => {
+    const { memory, ecdsa, base, message } = setup();
+    ecdsa.addSignature(base, SIGNATURE).unwrap();
+
+    expect(memory.insert(base, PUBLIC_KEY).isOk()).toBeTrue();
+    expect(memory.insert(message, MESSAGE).isOk()).toBeTrue();
+  });
+
+  test('should return an error for an invalid signature', () => {
+    const { memory, ecdsa, base, message } = setup();
+    ecdsa.addSignature(base, SIGNATURE).unwrap();
+    memory.insert(message, MESSAGE.add(new Felt(1n))).unwrap();
+
+    expect(memory.insert(base, PUBLIC_KEY).unwrapErr()).toEqual(
+      EcdsaInvalidSignatureError
+    );
+  });
+
+  test('should return an error if no signature is registered', () => {
+    const { memory, base, message } = setup();
+    memory.insert(base, PUBLIC_KEY).unwrap();
+
+    expect(memory.insert(message, MESSAGE).unwrapErr()).toEqual(
+      EcdsaMissingSignatureError
+    );
+  });
+
+  test('should return an error for a relocatable public key', () => {
+    const { memory, ecdsa, base, message } = setup();
+    ecdsa.addSignature(base, SIGNATURE).unwrap();
+    memory.insert(base, new Relocatable(0, 0)).unwrap();
+
+    expect(memory.insert(message, MESSAGE).unwrapErr()).toEqual(
+      EcdsaNotFeltError
+    );
+  });
+
+  test('should not register a signature outside of a public key cell', () => {
+    const { ecdsa, message } = setup();
+    expect(ecdsa.addSignature(message, SIGNATURE).unwrapErr()).toEqual(
+      EcdsaSignatureAddressError
+    );
+  });
+
+  test('should give the signed instances as private input', () => {
+    const { segments, memory, ecdsa, base, message } = setup();
+    ecdsa.addSignature(base, SIGNATURE).unwrap();
+    memory.insert(base, PUBLIC_KEY).unwrap();
+    memory.insert(message, MESSAGE).unwrap();
+
+    expect(ecdsa.airPrivateInput(segments)).toEqual([
+      {
+        index: 0,
+        pubkey:
+          '0x77a3b314db07c45076d11f62b6f9e748a39790441823307743cf00d6597ea43',
+        msg: '0x1234567890abcdef',
+        signature_input: {
+          r: '0x36c8dc5617819a0c283a12a46dd79fa5f2826e2dea6cd9fd83be32fbe4e0118',
+          w: '0x4f3abcb4dc725575f39408ad96029b51abb3f13dfa7b58076ac87d5e390a66',
+        },
+      },
+    ]);
+  });
+});
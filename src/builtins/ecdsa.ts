@@ -0,0 +1,168 @@
+import { Memory } from 'memory/memory';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { EcPoint, STARK_CURVE, STARK_GENERATOR } from 'primitives/ecPoint';
+import { Felt, Field } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { BaseBuiltinRunner, PrivateInput, toHex } from './builtin';
+
+export const EcdsaSignatureAddressError = {
+  message: 'EcdsaBuiltinError: signature address is not a public key cell',
+};
+
+export const EcdsaNotFeltError = {
+  message: 'EcdsaBuiltinError: public key and message must be felts',
+};
+
+export const EcdsaMissingSignatureError = {
+  message: 'EcdsaBuiltinError: no signature registered for the public key',
+};
+
+export const EcdsaInvalidSignatureError = {
+  message: 'EcdsaBuiltinError: signature is invalid for the message',
+};
+
+export type Signature = {
+  r: Felt;
+  s: Felt;
+};
+
+// Field of the scalars of the STARK curve.
+const SCALAR_FIELD = new Field(STARK_CURVE.order);
+const BOUND = 1n << 251n;
+
+/**
+ * Verify an ECDSA signature of a message on the STARK curve, as in cairo-lang
+ * `signature.py`. The public key is the x coordinate of the key point,
+ * so both points of this x coordinate are accepted.
+ */
+export function verifyEcdsaSignature(
+  message: Felt,
+  publicKey: Felt,
+  { r, s }: Signature
+): boolean {
+  // The STARK curve is defined over the Starknet field only.
+  if (publicKey.field.prime !== Field.STARKNET.prime) {
+    return false;
+  }
+  const [m, rValue, sValue] = [message, r, s].map((felt) => felt.toBigInt());
+  if (m >= BOUND || rValue === 0n || rValue >= BOUND) {
+    return false;
+  }
+  if (sValue === 0n || sValue >= STARK_CURVE.order) {
+    return false;
+  }
+
+  const key = EcPoint.fromX(publicKey);
+  if (key.isNone()) {
+    return false;
+  }
+
+  // The signature is valid if x((m * G + r * Q) / s) = r.
+  const w = SCALAR_FIELD.felt(sValue).inv().unwrap();
+  // As in cairo-lang, w = 1 / s must be in [1, 2^251).
+  if (w.isZero() || w.toBigInt() >= BOUND) {
+    return false;
+  }
+  const u1 = SCALAR_FIELD.felt(m).mul(w).toBigInt();
+  const u2 = SCALAR_FIELD.felt(rValue).mul(w).toBigInt();
+  return [key.unwrap(), key.unwrap().neg()].some((point) => {
+    const u2Q = point.mul(u2);
+    if (u2Q.isErr()) {
+      return false;
+    }
+    const sum =
+      u1 === 0n ? u2Q : STARK_GENERATOR.mul(u1).unwrap().add(u2Q.unwrap());
+    return sum.isOk() && sum.unwrap().x.toBigInt() === rValue;
+  });
+}
+
+// Each instance of the ECDSA builtin is made of a public key cell and
+// a message cell. Once both are written, the signature registered for the
+// instance, e.g. by a hint, must be a valid signature of the message.
+export class EcdsaBuiltinRunner extends BaseBuiltinRunner {
+  readonly name = 'ecdsa';
+  readonly cellsPerInstance = 2;
+  readonly nInputCells = 2;
+  // Signatures, by offset of the public key cell of their instance.
+  private signatures: Map<number, Signature>;
+
+  constructor(segments: MemorySegmentManager, included: boolean = true) {
+    super(segments, included);
+    this.signatures = new Map();
+  }
+
+  addSignature(
+    address: Relocatable,
+    signature: Signature
+  ): Result<true, VMError> {
+    if (
+      address.getSegmentIndex() !== this.getBase().getSegmentIndex() ||
+      address.getOffset() % this.cellsPerInstance !== 0
+    ) {
+      return new Err(EcdsaSignatureAddressError);
+    }
+    this.signatures.set(address.getOffset(), signature);
+    return new Ok(true as const);
+  }
+
+  addValidationRule(memory: Memory) {
+    memory.addValidationRule(
+      this.getBase().getSegmentIndex(),
+      (memory, address) => this.validate(memory, address)
+    );
+  }
+
+  validate(memory: Memory, address: Relocatable): Result<true, VMError> {
+    const segment = address.getSegmentIndex();
+    const offset =
+      address.getOffset() - (address.getOffset() % this.cellsPerInstance);
+    const publicKey = memory.get(new Relocatable(segment, offset));
+    const message = memory.get(new Relocatable(segment, offset + 1));
+    if (publicKey.isNone() || message.isNone()) {
+      return new Ok(true as const);
+    }
+
+    const [key, hash] = [publicKey.unwrap(), message.unwrap()];
+    if (!(key instanceof Felt) || !(hash instanceof Felt)) {
+      return new Err(EcdsaNotFeltError);
+    }
+
+    const signature = this.signatures.get(offset);
+    if (signature === undefined) {
+      return new Err(EcdsaMissingSignatureError);
+    }
+    if (!verifyEcdsaSignature(hash, key, signature)) {
+      return new Err(EcdsaInvalidSignatureError);
+    }
+    return new Ok(true as const);
+  }
+
+  // The signed instances, with the signature given as r and w = s^-1,
+  // as the prover expects it.
+  airPrivateInput(segments: MemorySegmentManager): PrivateInput[] {
+    const inputs: PrivateInput[] = [];
+    const segment = this.getBase().getSegmentIndex();
+    for (const [offset, { r, s }] of [...this.signatures].sort(
+      ([a], [b]) => a - b
+    )) {
+      const publicKey = segments.memory.get(new Relocatable(segment, offset));
+      const message = segments.memory.get(new Relocatable(segment, offset + 1));
+      if (publicKey.isNone() || message.isNone()) {
+        continue;
+      }
+      const [key, hash] = [publicKey.unwrap(), message.unwrap()];
+      const w = SCALAR_FIELD.felt(s.toBigInt()).inv();
+      if (!(key instanceof Felt) || !(hash instanceof Felt) || w.isErr()) {
+        continue;
+      }
+      inputs.push({
+        index: offset / this.cellsPerInstance,
+        pubkey: toHex(key),
+        msg: toHex(hash),
+        signature_input: { r: toHex(r), w: toHex(w.unwrap()) },
+      });
+    }
+    return inputs;
+  }
+}
@@ -0,0 +1,59 @@
+import { test, expect, describe } from 'bun:test';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import {
+  KeccakBuiltinRunner,
+  KeccakInputOutOfBoundsError,
+  keccakF1600,
+} from './keccak';
+
+describe('keccakF1600', () => {
+  test('should permute the zero state', () => {
+    const state = keccakF1600(new Array(25).fill(0n));
+    expect(state[0]).toEqual(0xf1258f7940e1dde7n);
+    expect(state[24]).toEqual(0xeaf1ff7b5ceca249n);
+  });
+});
+
+describe('KeccakBuiltinRunner', () => {
+  const setup = () => {
+    const segments = new MemorySegmentManager();
+    const keccak = new KeccakBuiltinRunner(segments);
+    keccak.addValidationRule(segments.memory);
+    keccak.addDeductionRule(segments.memory);
+    return { segments, base: keccak.getBase() };
+  };
+
+  // The state of SHA3-256 of the empty message, after padding:
+  // 0x06 at the first byte and 0x80 at the last byte of the rate, byte 135.
+  const SHA3_EMPTY_INPUT = [
+    new Felt(0x06n),
+    ...[0n, 0n, 0n, 0n].map((value) => new Felt(value)),
+    new Felt(0x80n << 80n),
+    ...[0n, 0n].map((value) => new Felt(value)),
+  ];
+
+  test('should deduce the output cells as the permutation of the inputs', () => {
+    const { segments, base } = setup();
+    segments.loadData(base, SHA3_EMPTY_INPUT).unwrap();
+    const output = segments.memory.get(
+      new Relocatable(base.getSegmentIndex(), 8)
+    );
+
+    // First 25 bytes of SHA3-256(''), in little-endian order.
+    expect(output.unwrap()).toEqual(
+      new Felt(0x82fa493be44dff80f562d661a05647c15166d71ebff8c6ffa7n)
+    );
+  });
+
+  test('should return an error for an input of more than 200 bits', () => {
+    const { segments, base } = setup();
+    const inputs = [...SHA3_EMPTY_INPUT];
+    inputs[7] = new Felt(1n << 200n);
+
+    expect(segments.loadData(base, inputs).unwrapErr()).toEqual(
+      KeccakInputOutOfBoundsError
+    );
+  });
+});
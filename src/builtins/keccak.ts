@@ -0,0 +1,179 @@
+import { Memory } from 'memory/memory';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { None, Option, Some } from 'option-pattern/option';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { BaseBuiltinRunner } from './builtin';
+
+export const KeccakNotFeltError = {
+  message: 'KeccakBuiltinError: keccak inputs must be felts',
+};
+
+export const KeccakInputOutOfBoundsError = {
+  message: 'KeccakBuiltinError: keccak inputs must be below 2^200',
+};
+
+const MASK_64 = (1n << 64n) - 1n;
+
+// Round constants of the iota step.
+const ROUND_CONSTANTS = [
+  0x0000000000000001n,
+  0x0000000000008082n,
+  0x800000000000808an,
+  0x8000000080008000n,
+  0x000000000000808bn,
+  0x0000000080000001n,
+  0x8000000080008081n,
+  0x8000000000008009n,
+  0x000000000000008an,
+  0x0000000000000088n,
+  0x0000000080008009n,
+  0x000000008000000an,
+  0x000000008000808bn,
+  0x800000000000008bn,
+  0x8000000000008089n,
+  0x8000000000008003n,
+  0x8000000000008002n,
+  0x8000000000000080n,
+  0x000000000000800an,
+  0x800000008000000an,
+  0x8000000080008081n,
+  0x8000000000008080n,
+  0x0000000080000001n,
+  0x8000000080008008n,
+];
+
+// Rotation offsets of the rho step, indexed by lane x + 5 * y.
+const ROTATIONS = [
+  0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18,
+  2, 61, 56, 14,
+];
+
+const rotate = (lane: bigint, n: number) =>
+  n === 0 ? lane : ((lane << BigInt(n)) | (lane >> BigInt(64 - n))) & MASK_64;
+
+// Keccak-f[1600] permutation of a state of 25 lanes of 64 bits,
+// indexed by x + 5 * y.
+export function keccakF1600(state: bigint[]): bigint[] {
+  let a = [...state];
+  for (const roundConstant of ROUND_CONSTANTS) {
+    // theta
+    const c = [0, 1, 2, 3, 4].map(
+      (x) => a[x] ^ a[x + 5] ^ a[x + 10] ^ a[x + 15] ^ a[x + 20]
+    );
+    const d = [0, 1, 2, 3, 4].map(
+      (x) => c[(x + 4) % 5] ^ rotate(c[(x + 1) % 5], 1)
+    );
+    a = a.map((lane, i) => lane ^ d[i % 5]);
+
+    // rho and pi
+    const b: bigint[] = new Array(25);
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotate(
+          a[x + 5 * y],
+          ROTATIONS[x + 5 * y]
+        );
+      }
+    }
+
+    // chi
+    a = b.map((lane, i) => {
+      const x = i % 5;
+      const row = i - x;
+      return (
+        lane ^ (~b[row + ((x + 1) % 5)] & MASK_64 & b[row + ((x + 2) % 5)])
+      );
+    });
+
+    // iota
+    a[0] ^= roundConstant;
+  }
+  return a;
+}
+
+// Byte length of a felt of the state.
+const FELT_BYTES = 25;
+
+// Each instance of the Keccak builtin is made of eight input cells and eight
+// output cells, each one holding 200 bits of the 1600-bit Keccak state,
+// in little-endian order. Outputs are the permutation of the inputs.
+export class KeccakBuiltinRunner extends BaseBuiltinRunner {
+  static readonly INPUT_BOUND = 1n << 200n;
+
+  readonly name = 'keccak';
+  readonly cellsPerInstance = 16;
+  readonly nInputCells = 8;
+  protected instancesPerComponent = 16;
+  protected privateInputNames = Array.from(
+    { length: this.nInputCells },
+    (_, index) => `input_s${index}`
+  );
+
+  // Inputs are checked when written, so that deductions cannot fail.
+  addValidationRule(memory: Memory) {
+    memory.addValidationRule(
+      this.getBase().getSegmentIndex(),
+      (memory, address) => this.validate(memory, address)
+    );
+  }
+
+  validate(memory: Memory, address: Relocatable): Result<true, VMError> {
+    if (address.getOffset() % this.cellsPerInstance >= this.nInputCells) {
+      return new Ok(true as const);
+    }
+    const value = memory.get(address).unwrap();
+    if (!(value instanceof Felt)) {
+      return new Err(KeccakNotFeltError);
+    }
+    if (value.toBigInt() >= KeccakBuiltinRunner.INPUT_BOUND) {
+      return new Err(KeccakInputOutOfBoundsError);
+    }
+    return new Ok(true as const);
+  }
+
+  protected computeOutputs(inputs: Felt[]): Option<Felt[]> {
+    if (
+      inputs.some(
+        (input) => input.toBigInt() >= KeccakBuiltinRunner.INPUT_BOUND
+      )
+    ) {
+      return new None();
+    }
+
+    const bytes: number[] = [];
+    for (const input of inputs) {
+      let value = input.toBigInt();
+      for (let i = 0; i < FELT_BYTES; i++) {
+        bytes.push(Number(value & 0xffn));
+        value >>= 8n;
+      }
+    }
+
+    const lanes: bigint[] = [];
+    for (let lane = 0; lane < 25; lane++) {
+      let value = 0n;
+      for (let i = 7; i >= 0; i--) {
+        value = (value << 8n) | BigInt(bytes[8 * lane + i]);
+      }
+      lanes.push(value);
+    }
+
+    const output = keccakF1600(lanes);
+    const outputBytes = output.flatMap((lane) =>
+      [0, 1, 2, 3, 4, 5, 6, 7].map((i) =>
+        Number((lane >> BigInt(8 * i)) & 0xffn)
+      )
+    );
+
+    const outputs: Felt[] = [];
+    for (let felt = 0; felt < this.nInputCells; felt++) {
+      let value = 0n;
+      for (let i = FELT_BYTES - 1; i >= 0; i--) {
+        value = (value << 8n) | BigInt(outputBytes[FELT_BYTES * felt + i]);
+      }
+      outputs.push(inputs[0].field.reduce(value));
+    }
+    return new Some(outputs);
+  }
+}
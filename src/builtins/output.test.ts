@@ -0,0 +1,33 @@
+import { test, expect, describe } from 'bun:test';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { OutputBuiltinRunner, OutputNotFeltError } from './output';
+
+describe('OutputBuiltinRunner', () => {
+  describe('getOutput', () => {
+    test('should return the felts of the output segment in order', () => {
+      const segments = new MemorySegmentManager();
+      const output = new OutputBuiltinRunner(segments);
+      segments
+        .loadData(output.getBase(), [new Felt(1n), new Felt(2n), new Felt(3n)])
+        .unwrap();
+
+      expect(output.getOutput(segments).unwrap()).toEqual([
+        new Felt(1n),
+        new Felt(2n),
+        new Felt(3n),
+      ]);
+    });
+
+    test('should return an error if the output contains a relocatable', () => {
+      const segments = new MemorySegmentManager();
+      const output = new OutputBuiltinRunner(segments);
+      segments.loadData(output.getBase(), [new Relocatable(0, 0)]).unwrap();
+
+      expect(output.getOutput(segments).unwrapErr()).toEqual(
+        OutputNotFeltError
+      );
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Felt } from 'primitives/felt';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { BaseBuiltinRunner } from './builtin';
+
+export const OutputNotFeltError = {
+  message: 'OutputBuiltinError: program output must only contain felts',
+};
+
+// The output builtin collects the felts written by the program
+// to its segment, e.g. by `serialize_word`.
+export class OutputBuiltinRunner extends BaseBuiltinRunner {
+  readonly name = 'output';
+  readonly cellsPerInstance = 1;
+  readonly nInputCells = 1;
+
+  // The program output, in order of the segment offsets.
+  getOutput(segments: MemorySegmentManager): Result<Felt[], VMError> {
+    const output: Felt[] = [];
+    const segment = segments.memory.data[this.getBase().getSegmentIndex()];
+    for (const value of segment) {
+      if (value === undefined) {
+        continue;
+      }
+      if (!(value instanceof Felt)) {
+        return new Err(OutputNotFeltError);
+      }
+      output.push(value);
+    }
+    return new Ok(output);
+  }
+}
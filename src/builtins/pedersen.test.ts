@@ -0,0 +1,86 @@
+import { test, expect, describe } from 'bun:test';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { None } from 'option-pattern/option';
+import { PedersenBuiltinRunner, pedersenHash } from './pedersen';
+
+const X = new Felt(
+  0x3d937c035c878245caf64531a5756109c53068da139362728feb561405371cbn
+);
+const Y = new Felt(
+  0x208a0a10250e382e1e4bbe2880906c2791bf6275695e02fbbc6aeff9cd8b31an
+);
+const HASH = new Felt(
+  0x30e480bed5fe53fa909cc0f8c4d99b8f9f2c016be4c41e13a4848797979c662n
+);
+
+describe('pedersenHash', () => {
+  test('should match the cairo-lang test vector', () => {
+    expect(pedersenHash(X, Y)).toEqual(HASH);
+  });
+
+  test('should hash zeros to the shift point', () => {
+    expect(pedersenHash(new Felt(0n), new Felt(0n))).toEqual(
+      new Felt(
+        0x49ee3eba8c1600700ee1b87eb599f16716b0b1022947733551fde4050ca6804n
+      )
+    );
+  });
+});
+
+describe('PedersenBuiltinRunner', () => {
+  const setup = () => {
+    const segments = new MemorySegmentManager();
+    const pedersen = new PedersenBuiltinRunner(segments);
+    pedersen.addDeductionRule(segments.memory);
+    return { memory: segments.memory, base: pedersen.getBase() };
+  };
+
+  test('should deduce the output cell from the inputs', () => {
+    const { memory, base } = setup();
+    memory.insert(new Relocatable(base.getSegmentIndex(), 3), X);
+    memory.insert(new Relocatable(base.getSegmentIndex(), 4), Y);
+
+    expect(
+      memory.get(new Relocatable(base.getSegmentIndex(), 5)).unwrap()
+    ).toEqual(HASH);
+  });
+
+  test('should not deduce an input cell', () => {
+    const { memory, base } = setup();
+    expect(memory.get(base)).toEqual(new None());
+  });
+
+  test('should not deduce the output cell if an input is missing', () => {
+    const { memory, base } = setup();
+    memory.insert(base, X);
+
+    expect(memory.get(new Relocatable(base.getSegmentIndex(), 2))).toEqual(
+      new None()
+    );
+  });
+
+  test('should not deduce the output cell of relocatable inputs', () => {
+    const { memory, base } = setup();
+    memory.insert(base, new Relocatable(0, 0));
+    memory.insert(new Relocatable(base.getSegmentIndex(), 1), Y);
+
+    expect(memory.get(new Relocatable(base.getSegmentIndex(), 2))).toEqual(
+      new None()
+    );
+  });
+
+  test('should give the instances with both inputs as private input', () => {
+    const segments = new MemorySegmentManager();
+    const pedersen = new PedersenBuiltinRunner(segments);
+    const segment = pedersen.getBase().getSegmentIndex();
+    segments.memory.insert(new Relocatable(segment, 0), new Felt(1n));
+    segments.memory.insert(new Relocatable(segment, 1), new Felt(2n));
+    segments.memory.insert(new Relocatable(segment, 3), new Felt(3n));
+
+    expect(pedersen.airPrivateInput(segments)).toEqual([
+      { index: 0, x: '0x1', y: '0x2' },
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { EcPoint } from 'primitives/ecPoint';
+import { Felt, Field } from 'primitives/felt';
+import { None, Option, Some } from 'option-pattern/option';
+import { BaseBuiltinRunner } from './builtin';
+
+const point = (x: bigint, y: bigint) => new EcPoint(new Felt(x), new Felt(y));
+
+// Constant points of the Pedersen hash, taken from cairo-lang
+// `pedersen_params.json`: the shift point, then P0 to P3.
+const SHIFT_POINT = point(
+  0x49ee3eba8c1600700ee1b87eb599f16716b0b1022947733551fde4050ca6804n,
+  0x3ca0cfe4b3bc6ddf346d49d06ea0ed34e621062c0e056c1d0405d266e10268an
+);
+const CONSTANT_POINTS = [
+  point(
+    0x234287dcbaffe7f969c748655fca9e58fa8120b6d56eb0c1080d17957ebe47bn,
+    0x3b056f100f96fb21e889527d41f4e39940135dd7a6c94cc6ed0268ee89e5615n
+  ),
+  point(
+    0x4fa56f376c83db33f9dab2656558f3399099ec1de5e3018b7a6932dba8aa378n,
+    0x3fa0984c931c9e38113e0c0e47e4401562761f92a7a23b45168f4e80ff5b54dn
+  ),
+  point(
+    0x4ba4cc166be8dec764910f75b45f74b40c690c74709e90f3aa372f0bd2d6997n,
+    0x40301cf5c1751f4b971e46c4ede85fcac5c59a5ce5ae7c48151f27b24b219cn
+  ),
+  point(
+    0x54302dcb0e6cc1c6e44cca8f61a63bb2ca65048d53fb325d36ff12c49a58202n,
+    0x1b77b3e37d13504b348046268d8ae25ce98ad783c25561a879dcc77e99c2426n
+  ),
+];
+
+// Each input is split in its 248 low bits and its 4 high bits,
+// multiplied by different constant points.
+const LOW_BITS = 248;
+const HIGH_BITS = 4;
+
+// Powers of two multiples of the constant points, computed on first use,
+// so that hashing only takes point additions.
+let multiples: EcPoint[][] | undefined;
+
+function getMultiples(): EcPoint[][] {
+  if (multiples === undefined) {
+    multiples = CONSTANT_POINTS.map((constant, index) => {
+      const bits = index % 2 === 0 ? LOW_BITS : HIGH_BITS;
+      const powers = [constant];
+      for (let i = 1; i < bits; i++) {
+        powers.push(powers[i - 1].double().unwrap());
+      }
+      return powers;
+    });
+  }
+  return multiples;
+}
+
+/**
+ * Pedersen hash of two felts, as defined in cairo-lang:
+ * H(x, y) = [shift + x_low * P0 + x_high * P1 + y_low * P2 + y_high * P3].x
+ * The additions never hit the same x coordinate for inputs below the prime.
+ */
+export function pedersenHash(x: Felt, y: Felt): Felt {
+  const table = getMultiples();
+  let result = SHIFT_POINT;
+  [x, y].forEach((input, index) => {
+    const value = input.toBigInt();
+    const parts = [
+      value & ((1n << BigInt(LOW_BITS)) - 1n),
+      value >> BigInt(LOW_BITS),
+    ];
+    parts.forEach((part, half) => {
+      const powers = table[2 * index + half];
+      for (let bit = 0; part >> BigInt(bit) !== 0n; bit++) {
+        if ((part >> BigInt(bit)) & 1n) {
+          result = result.add(powers[bit]).unwrap();
+        }
+      }
+    });
+  });
+  return result.x;
+}
+
+// Each instance of the Pedersen builtin is made of two input cells, x and y,
+// and an output cell, deduced as their hash when it is read.
+export class PedersenBuiltinRunner extends BaseBuiltinRunner {
+  readonly name = 'pedersen';
+  readonly cellsPerInstance = 3;
+  readonly nInputCells = 2;
+  protected privateInputNames = ['x', 'y'];
+
+  protected computeOutputs([x, y]: Felt[]): Option<Felt[]> {
+    // The STARK curve is defined over the Starknet field only.
+    if (x.field.prime !== Field.STARKNET.prime) {
+      return new None();
+    }
+    // The hash is a felt of the VM field, not of the curve constants.
+    return new Some([x.field.felt(pedersenHash(x, y).toBigInt())]);
+  }
+}
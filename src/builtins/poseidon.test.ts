@@ -0,0 +1,68 @@
+import { test, expect, describe } from 'bun:test';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { None } from 'option-pattern/option';
+import { PoseidonBuiltinRunner, hadesPermutation } from './poseidon';
+
+const ZERO_PERMUTATION = [
+  new Felt(0x79e8d1e78258000a28fc9d49e233bc6852357968577b1e386550ed6a9086133n),
+  new Felt(0x3840d003d0f3f96dbb796ff6aa6a63be5b5404b91ccaabca256154cbb6fb984n),
+  new Felt(0x1eb39da3f7d3b04142d0ac83d9da00c9325a61fb2ef326e50b70eaa8a3c7cc7n),
+];
+
+describe('hadesPermutation', () => {
+  test('should permute the zero state', () => {
+    const zero = new Felt(0n);
+    expect(hadesPermutation([zero, zero, zero])).toEqual(ZERO_PERMUTATION);
+  });
+
+  test('should match the Starknet poseidon hash of two felts', () => {
+    // poseidon_hash(x, y) is the first element of the permutation of [x, y, 2].
+    const state = [
+      new Felt(
+        0xb662f9017fa7956fd70e26129b1833e10ad000fd37b4d9f4e0ce6884b7bben
+      ),
+      new Felt(
+        0x1fe356bf76102cdae1bfbdc173602ead228b12904c00dad9cf16e035468bean
+      ),
+      new Felt(2n),
+    ];
+    expect(hadesPermutation(state)[0]).toEqual(
+      new Felt(
+        0x75540825a6ecc5dc7d7c2f5f868164182742227f1367d66c43ee51ec7937a81n
+      )
+    );
+  });
+});
+
+describe('PoseidonBuiltinRunner', () => {
+  const setup = () => {
+    const segments = new MemorySegmentManager();
+    const poseidon = new PoseidonBuiltinRunner(segments);
+    poseidon.addDeductionRule(segments.memory);
+    return { segments, base: poseidon.getBase() };
+  };
+
+  test('should deduce the output cells from the inputs', () => {
+    const { segments, base } = setup();
+    const zero = new Felt(0n);
+    segments.loadData(base, [zero, zero, zero]).unwrap();
+
+    const outputs = [3, 4, 5].map((offset) =>
+      segments.memory
+        .get(new Relocatable(base.getSegmentIndex(), offset))
+        .unwrap()
+    );
+    expect(outputs).toEqual(ZERO_PERMUTATION);
+  });
+
+  test('should not deduce the outputs if an input is missing', () => {
+    const { segments, base } = setup();
+    segments.loadData(base, [new Felt(0n), new Felt(0n)]).unwrap();
+
+    expect(
+      segments.memory.get(new Relocatable(base.getSegmentIndex(), 3))
+    ).toEqual(new None());
+  });
+});
@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+import { Felt, Field } from 'primitives/felt';
+import { Option, Some } from 'option-pattern/option';
+import { BaseBuiltinRunner } from './builtin';
+
+// Parameters of the Hades permutation used by Starknet Poseidon,
+// see cairo-lang `poseidon_utils.py`.
+const STATE_SIZE = 3;
+const FULL_ROUNDS = 8;
+const PARTIAL_ROUNDS = 83;
+
+// Round constants of each field, computed on first use:
+// the constant j of round i is sha256(`Hades${3 * i + j}`) modulo the prime.
+const roundConstants = new Map<bigint, Felt[][]>();
+
+function getRoundConstants(field: Field): Felt[][] {
+  let fieldConstants = roundConstants.get(field.prime);
+  if (fieldConstants === undefined) {
+    fieldConstants = [];
+    for (let round = 0; round < FULL_ROUNDS + PARTIAL_ROUNDS; round++) {
+      const constants: Felt[] = [];
+      for (let j = 0; j < STATE_SIZE; j++) {
+        const digest = createHash('sha256')
+          .update(`Hades${STATE_SIZE * round + j}`)
+          .digest('hex');
+        constants.push(field.reduce(BigInt(`0x${digest}`)));
+      }
+      fieldConstants.push(constants);
+    }
+    roundConstants.set(field.prime, fieldConstants);
+  }
+  return fieldConstants;
+}
+
+const cube = (x: Felt) => x.mul(x).mul(x);
+
+// Multiplication by the MDS matrix [[3, 1, 1], [1, -1, 1], [1, 1, -2]].
+function mix([a, b, c]: Felt[]): Felt[] {
+  const sum = a.add(b).add(c);
+  return [sum.add(a).add(a), sum.sub(b).sub(b), sum.sub(c).sub(c).sub(c)];
+}
+
+// Hades permutation of a state of three felts: full rounds apply the S-box
+// x^3 to the whole state, partial rounds only to its last element.
+export function hadesPermutation(state: Felt[]): Felt[] {
+  const constants = getRoundConstants(state[0].field);
+  let result = state;
+  constants.forEach((roundConstants, round) => {
+    result = result.map((x, i) => x.add(roundConstants[i]));
+    const isFull =
+      round < FULL_ROUNDS / 2 || round >= FULL_ROUNDS / 2 + PARTIAL_ROUNDS;
+    if (isFull) {
+      result = result.map(cube);
+    } else {
+      result[STATE_SIZE - 1] = cube(result[STATE_SIZE - 1]);
+    }
+    result = mix(result);
+  });
+  return result;
+}
+
+// Each instance of the Poseidon builtin is made of three input cells,
+// the initial state, and three output cells, deduced as its permutation.
+export class PoseidonBuiltinRunner extends BaseBuiltinRunner {
+  readonly name = 'poseidon';
+  readonly cellsPerInstance = 6;
+  readonly nInputCells = 3;
+  protected privateInputNames = ['input_s0', 'input_s1', 'input_s2'];
+
+  protected computeOutputs(inputs: Felt[]): Option<Felt[]> {
+    return new Some(hadesPermutation(inputs));
+  }
+}
@@ -0,0 +1,56 @@
+import { test, expect, describe } from 'bun:test';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import {
+  RangeCheckBuiltinRunner,
+  RangeCheckNotFeltError,
+  RangeCheckOutOfBoundsError,
+} from './rangeCheck';
+
+describe('RangeCheckBuiltinRunner', () => {
+  const setup = () => {
+    const segments = new MemorySegmentManager();
+    const rangeCheck = new RangeCheckBuiltinRunner(segments);
+    rangeCheck.addValidationRule(segments.memory);
+    return { segments, rangeCheck, address: rangeCheck.getBase() };
+  };
+
+  test('should accept a value below 2^128', () => {
+    const { segments, address } = setup();
+    const value = new Felt((1n << 128n) - 1n);
+    segments.memory.insert(address, value).unwrap();
+
+    expect(segments.memory.get(address).unwrap()).toEqual(value);
+  });
+
+  test('should reject a value of at least 2^128', () => {
+    const { segments, address } = setup();
+    const result = segments.memory.insert(address, new Felt(1n << 128n));
+
+    expect(result.unwrapErr()).toEqual(RangeCheckOutOfBoundsError);
+  });
+
+  test('should reject a negative value', () => {
+    const { segments, address } = setup();
+    const result = segments.memory.insert(address, new Felt(-1n + Felt.PRIME));
+
+    expect(result.unwrapErr()).toEqual(RangeCheckOutOfBoundsError);
+  });
+
+  test('should reject a relocatable', () => {
+    const { segments, address } = setup();
+    const result = segments.memory.insert(address, new Relocatable(0, 0));
+
+    expect(result.unwrapErr()).toEqual(RangeCheckNotFeltError);
+  });
+
+  test('should give the range of the 16-bit parts of the values', () => {
+    const { segments, rangeCheck, address } = setup();
+    expect(rangeCheck.getRangeCheckUsage(segments).isNone()).toBeTrue();
+
+    segments.memory.insert(address, new Felt(0x50003n << 96n)).unwrap();
+    expect(rangeCheck.getRangeCheckUsage(segments).unwrap()).toEqual([0, 5]);
+    expect(rangeCheck.getUsedPermRangeCheckUnits(segments)).toEqual(8);
+  });
+});
@@ -0,0 +1,73 @@
+import { Memory } from 'memory/memory';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { None, Option, Some } from 'option-pattern/option';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { BaseBuiltinRunner } from './builtin';
+
+export const RangeCheckNotFeltError = {
+  message: 'RangeCheckBuiltinError: range checked value must be a felt',
+};
+
+export const RangeCheckOutOfBoundsError = {
+  message: 'RangeCheckBuiltinError: range checked value must be below 2^128',
+};
+
+// The range check builtin asserts that each value written
+// to its segment is in the range [0, 2^128).
+// The prover checks it as eight 16-bit parts.
+export class RangeCheckBuiltinRunner extends BaseBuiltinRunner {
+  static readonly BOUND = 1n << 128n;
+  static readonly N_PARTS = 8;
+  static readonly PART_BITS = 16n;
+
+  readonly name = 'range_check';
+  readonly cellsPerInstance = 1;
+  readonly nInputCells = 1;
+  protected privateInputNames = ['value'];
+
+  addValidationRule(memory: Memory) {
+    memory.addValidationRule(
+      this.getBase().getSegmentIndex(),
+      RangeCheckBuiltinRunner.validate
+    );
+  }
+
+  static validate(memory: Memory, address: Relocatable): Result<true, VMError> {
+    const value = memory.get(address).unwrap();
+    if (!(value instanceof Felt)) {
+      return new Err(RangeCheckNotFeltError);
+    }
+    if (value.toBigInt() >= RangeCheckBuiltinRunner.BOUND) {
+      return new Err(RangeCheckOutOfBoundsError);
+    }
+    return new Ok(true as const);
+  }
+
+  // Smallest and largest 16-bit parts of the values written to the segment.
+  getRangeCheckUsage(segments: MemorySegmentManager): Option<[number, number]> {
+    const segment = segments.memory.data[this.getBase().getSegmentIndex()];
+    let usage: [number, number] | undefined;
+    const mask = (1n << RangeCheckBuiltinRunner.PART_BITS) - 1n;
+    for (const value of segment) {
+      if (!(value instanceof Felt)) {
+        continue;
+      }
+      let n = value.toBigInt();
+      for (let i = 0; i < RangeCheckBuiltinRunner.N_PARTS; i++) {
+        const part = Number(n & mask);
+        n >>= RangeCheckBuiltinRunner.PART_BITS;
+        usage = usage
+          ? [Math.min(usage[0], part), Math.max(usage[1], part)]
+          : [part, part];
+      }
+    }
+    return usage === undefined ? new None() : new Some(usage);
+  }
+
+  // Range check units of the prover used by the builtin.
+  getUsedPermRangeCheckUnits(segments: MemorySegmentManager): number {
+    return this.getUsedCells(segments) * RangeCheckBuiltinRunner.N_PARTS;
+  }
+}
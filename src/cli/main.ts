@@ -0,0 +1,25 @@
+#!/usr/bin/env bun
+// Entrypoint of the command-line runner, e.g.
+// `cairo-vm-ts run program.json --print_output`.
+
+import { USAGE, parseArgs } from './options';
+import { runProgram } from './run';
+
+const args = process.argv.slice(2);
+if (args.length === 0 || args.includes('--help')) {
+  console.log(USAGE);
+  process.exit(args.length === 0 ? 1 : 0);
+}
+
+const options = parseArgs(args);
+if (options.isErr()) {
+  console.error(options.unwrapErr().message);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const run = runProgram(options.unwrap());
+if (run.isErr()) {
+  console.error(run.unwrapErr().message);
+  process.exit(1);
+}
@@ -0,0 +1,133 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  AirInputProofModeError,
+  AirPrivateInputFilesError,
+  InvalidPrimeError,
+  MissingCommandError,
+  MissingProgramError,
+  MissingValueError,
+  UnknownLayoutError,
+  UnknownOptionError,
+  parseArgs,
+} from './options';
+
+describe('parseArgs', () => {
+  test('should parse the program and the default options', () => {
+    expect(parseArgs(['run', 'program.json']).unwrap()).toEqual({
+      programPath: 'program.json',
+      layout: 'plain',
+      prime: undefined,
+      traceFile: undefined,
+      memoryFile: undefined,
+      airPublicInput: undefined,
+      airPrivateInput: undefined,
+      printOutput: false,
+      printInfo: false,
+      proofMode: false,
+    });
+  });
+
+  test('should parse the flags and the options with a value', () => {
+    const options = parseArgs([
+      'run',
+      '--layout=small',
+      'program.json',
+      '--trace_file',
+      'trace.bin',
+      '--memory_file=memory.bin',
+      '--print_output',
+      '--print_info',
+    ]).unwrap();
+
+    expect(options.programPath).toEqual('program.json');
+    expect(options.layout).toEqual('small');
+    expect(options.traceFile).toEqual('trace.bin');
+    expect(options.memoryFile).toEqual('memory.bin');
+    expect(options.printOutput).toBeTrue();
+    expect(options.printInfo).toBeTrue();
+  });
+
+  test('should return an error without the run command', () => {
+    expect(parseArgs(['program.json']).unwrapErr()).toEqual(
+      MissingCommandError
+    );
+  });
+
+  test('should return an error without a single program', () => {
+    expect(parseArgs(['run']).unwrapErr()).toEqual(MissingProgramError);
+    expect(parseArgs(['run', 'a.json', 'b.json']).unwrapErr()).toEqual(
+      MissingProgramError
+    );
+  });
+
+  test('should return an error for an unknown option', () => {
+    expect(parseArgs(['run', 'a.json', '--verbose']).unwrapErr()).toEqual({
+      message: `${UnknownOptionError.message}: --verbose`,
+    });
+  });
+
+  test('should return an error for an option without value', () => {
+    expect(parseArgs(['run', 'a.json', '--trace_file']).unwrapErr()).toEqual({
+      message: `${MissingValueError.message}: --trace_file`,
+    });
+  });
+
+  test('should return an error for an unknown layout', () => {
+    expect(
+      parseArgs(['run', 'a.json', '--layout', 'large']).unwrapErr()
+    ).toEqual({ message: `${UnknownLayoutError.message}: large` });
+  });
+
+  test('should parse the prime of the program field', () => {
+    expect(
+      parseArgs(['run', 'a.json', '--prime', '0xffffffff00000001']).unwrap()
+        .prime
+    ).toEqual(0xffffffff00000001n);
+    expect(parseArgs(['run', 'a.json', '--prime=7']).unwrap().prime).toEqual(
+      7n
+    );
+  });
+
+  test('should return an error for an invalid prime', () => {
+    expect(parseArgs(['run', 'a.json', '--prime', '0xzz']).unwrapErr()).toEqual(
+      { message: `${InvalidPrimeError.message}: 0xzz` }
+    );
+    expect(parseArgs(['run', 'a.json', '--prime=1']).unwrapErr()).toEqual({
+      message: `${InvalidPrimeError.message}: 1`,
+    });
+  });
+
+  test('should parse the AIR inputs in proof mode', () => {
+    const options = parseArgs([
+      'run',
+      'a.json',
+      '--proof_mode',
+      '--air_public_input=public.json',
+      '--air_private_input=private.json',
+      '--trace_file=trace.bin',
+      '--memory_file=memory.bin',
+    ]).unwrap();
+
+    expect(options.proofMode).toBeTrue();
+    expect(options.airPublicInput).toEqual('public.json');
+    expect(options.airPrivateInput).toEqual('private.json');
+  });
+
+  test('should return an error for the AIR inputs out of proof mode', () => {
+    expect(
+      parseArgs(['run', 'a.json', '--air_public_input=public.json']).unwrapErr()
+    ).toEqual(AirInputProofModeError);
+  });
+
+  test('should return an error for the AIR private input without trace and memory files', () => {
+    expect(
+      parseArgs([
+        'run',
+        'a.json',
+        '--proof_mode',
+        '--air_private_input=private.json',
+        '--trace_file=trace.bin',
+      ]).unwrapErr()
+    ).toEqual(AirPrivateInputFilesError);
+  });
+});
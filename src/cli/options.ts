@@ -0,0 +1,163 @@
+// Options of the command-line runner, mirroring the flags of `cairo-run`.
+
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { getLayout } from 'runner/layout';
+
+export const MissingCommandError = {
+  message: 'CliError: expected the run command',
+};
+
+export const MissingProgramError = {
+  message: 'CliError: expected the path of a compiled program',
+};
+
+export const UnknownOptionError = {
+  message: 'CliError: unknown option',
+};
+
+export const MissingValueError = {
+  message: 'CliError: option expects a value',
+};
+
+export const UnknownLayoutError = {
+  message: 'CliError: unknown layout',
+};
+
+export const InvalidPrimeError = {
+  message: 'CliError: the prime must be an integer greater than 1',
+};
+
+export const AirInputProofModeError = {
+  message: 'CliError: the AIR inputs are only written in proof mode',
+};
+
+export const AirPrivateInputFilesError = {
+  message:
+    'CliError: --air_private_input requires --trace_file and --memory_file',
+};
+
+export const USAGE = `Usage: cairo-vm-ts run <program.json> [options]
+
+Options:
+  --layout <name>       layout of the run (default: plain)
+  --prime <value>       check that the program is compiled for this prime
+  --trace_file <path>   write the relocated trace to the file
+  --memory_file <path>  write the relocated memory to the file
+  --print_output        print the program output
+  --print_info          print the steps, registers, segment and builtin usage
+  --proof_mode          run from __start__ to __end__, for the run to be proven
+  --air_public_input <path>
+                        write the AIR public input to the file, in proof mode
+  --air_private_input <path>
+                        write the AIR private input to the file, in proof mode`;
+
+export type CliOptions = {
+  programPath: string;
+  layout: string;
+  prime?: bigint;
+  traceFile?: string;
+  memoryFile?: string;
+  airPublicInput?: string;
+  airPrivateInput?: string;
+  printOutput: boolean;
+  printInfo: boolean;
+  proofMode: boolean;
+};
+
+const STRING_OPTIONS = [
+  'layout',
+  'prime',
+  'trace_file',
+  'memory_file',
+  'air_public_input',
+  'air_private_input',
+];
+const BOOLEAN_OPTIONS = ['print_output', 'print_info', 'proof_mode'];
+
+// Parse the arguments following the executable,
+// e.g. `run program.json --print_output`.
+export function parseArgs(args: string[]): Result<CliOptions, VMError> {
+  const [command, ...rest] = args;
+  if (command !== 'run') {
+    return new Err(MissingCommandError);
+  }
+
+  const positionals: string[] = [];
+  const values = new Map<string, string>();
+  const flags = new Set<string>();
+  for (let i = 0; i < rest.length; i++) {
+    if (!rest[i].startsWith('--')) {
+      positionals.push(rest[i]);
+      continue;
+    }
+    // Values are given either as `--name value` or `--name=value`.
+    const [name, inline] = rest[i].slice(2).split(/=(.*)/s);
+    if (BOOLEAN_OPTIONS.includes(name) && inline === undefined) {
+      flags.add(name);
+    } else if (STRING_OPTIONS.includes(name)) {
+      const value = inline ?? rest[++i];
+      if (value === undefined || value === '') {
+        return new Err({ message: `${MissingValueError.message}: --${name}` });
+      }
+      values.set(name, value);
+    } else {
+      return new Err({ message: `${UnknownOptionError.message}: ${rest[i]}` });
+    }
+  }
+
+  if (positionals.length !== 1) {
+    return new Err(MissingProgramError);
+  }
+  const layout = values.get('layout') ?? 'plain';
+  if (getLayout(layout).isErr()) {
+    return new Err({ message: `${UnknownLayoutError.message}: ${layout}` });
+  }
+  const prime = parsePrime(values.get('prime'));
+  if (prime.isErr()) {
+    return prime;
+  }
+  const airPublicInput = values.get('air_public_input');
+  const airPrivateInput = values.get('air_private_input');
+  if (
+    (airPublicInput !== undefined || airPrivateInput !== undefined) &&
+    !flags.has('proof_mode')
+  ) {
+    return new Err(AirInputProofModeError);
+  }
+  // The private input points to the trace and memory files.
+  if (
+    airPrivateInput !== undefined &&
+    (!values.has('trace_file') || !values.has('memory_file'))
+  ) {
+    return new Err(AirPrivateInputFilesError);
+  }
+
+  return new Ok({
+    programPath: positionals[0],
+    layout,
+    prime: prime.unwrap(),
+    traceFile: values.get('trace_file'),
+    memoryFile: values.get('memory_file'),
+    airPublicInput,
+    airPrivateInput,
+    printOutput: flags.has('print_output'),
+    printInfo: flags.has('print_info'),
+    proofMode: flags.has('proof_mode'),
+  });
+}
+
+// The prime is given as a decimal or 0x-prefixed hexadecimal integer.
+function parsePrime(value?: string): Result<bigint | undefined, VMError> {
+  if (value === undefined) {
+    return new Ok(undefined);
+  }
+  try {
+    const prime = BigInt(value);
+    if (prime > 1n) {
+      return new Ok(prime);
+    }
+  } catch {
+    // Not an integer.
+  }
+  return new Err({ message: `${InvalidPrimeError.message}: ${value}` });
+}
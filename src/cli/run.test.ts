@@ -0,0 +1,167 @@
+import { test, expect, describe } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Field } from 'primitives/felt';
+import { CliOptions } from './options';
+import { InvalidJsonError, PrimeMismatchError } from 'program/program';
+import { BuiltinNotInLayoutError, WriteFileError } from 'runner/cairoRunner';
+import {
+  InvalidProgramError,
+  OutputFileError,
+  ProgramFileError,
+  runProgram,
+} from './run';
+
+const options = (programPath: string): CliOptions => ({
+  programPath,
+  layout: 'small',
+  printOutput: false,
+  printInfo: false,
+  proofMode: false,
+});
+
+// Run the program and collect the printed lines.
+const run = (options: CliOptions) => {
+  const lines: string[] = [];
+  const result = runProgram(options, (line) => lines.push(line));
+  return { result, lines };
+};
+
+describe('runProgram', () => {
+  test('should print the program output', () => {
+    const { result, lines } = run({
+      ...options('cairo_programs/output.json'),
+      printOutput: true,
+    });
+    result.unwrap();
+    expect(lines).toEqual(['Program output:', '  42', '']);
+  });
+
+  test('should print the run info', () => {
+    const { result, lines } = run({
+      ...options('cairo_programs/output.json'),
+      printInfo: true,
+    });
+    result.unwrap();
+    expect(lines).toContain('Number of steps: 4');
+    expect(lines).toContain('  2 (output): 1');
+    expect(lines).toContain('  output: 1 cells, 1 instances');
+  });
+
+  test('should write the trace and memory files', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cairo-vm-ts-'));
+    try {
+      const traceFile = path.join(dir, 'trace.bin');
+      const memoryFile = path.join(dir, 'memory.bin');
+      run({
+        ...options('cairo_programs/fibonacci.json'),
+        traceFile,
+        memoryFile,
+      }).result.unwrap();
+
+      // A trace entry is 3 addresses of 8 bytes, a memory cell
+      // an address of 8 bytes and a felt of 32 bytes.
+      expect(fs.statSync(traceFile).size % 24).toEqual(0);
+      expect(fs.statSync(memoryFile).size % 40).toEqual(0);
+      expect(fs.statSync(traceFile).size).toBeGreaterThan(0);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  test('should run a program in the field of its prime', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cairo-vm-ts-'));
+    try {
+      const prime = 2n ** 255n - 19n;
+      const programPath = path.join(dir, 'hints.json');
+      const json = fs
+        .readFileSync('cairo_programs/hints.json', 'utf8')
+        .replace(/"prime": "0x\w+"/, `"prime": "0x${prime.toString(16)}"`);
+      fs.writeFileSync(programPath, json);
+
+      run(options(programPath)).result.unwrap();
+      run({ ...options(programPath), prime }).result.unwrap();
+      expect(
+        run({
+          ...options(programPath),
+          prime: Field.STARKNET.prime,
+        }).result.unwrapErr()
+      ).toEqual({
+        message: `${InvalidProgramError.message} ${programPath}: ${PrimeMismatchError.message}`,
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  test('should write the AIR inputs in proof mode', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cairo-vm-ts-'));
+    try {
+      const file = (name: string) => path.join(dir, name);
+      run({
+        ...options('cairo_programs/proof_mode.json'),
+        proofMode: true,
+        traceFile: file('trace.bin'),
+        memoryFile: file('memory.bin'),
+        airPublicInput: file('public.json'),
+        airPrivateInput: file('private.json'),
+      }).result.unwrap();
+
+      const publicInput = JSON.parse(
+        fs.readFileSync(file('public.json'), 'utf8')
+      );
+      expect(publicInput.layout).toEqual('small');
+      expect(publicInput.n_steps).toEqual(512);
+      const privateInput = JSON.parse(
+        fs.readFileSync(file('private.json'), 'utf8')
+      );
+      expect(privateInput.trace_path).toEqual(file('trace.bin'));
+      expect(privateInput.memory_path).toEqual(file('memory.bin'));
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  test('should return an error for a builtin missing from the layout', () => {
+    const { result } = run({
+      ...options('cairo_programs/output.json'),
+      layout: 'plain',
+    });
+    expect(result.unwrapErr()).toEqual({
+      message: `${BuiltinNotInLayoutError.message} plain: output`,
+    });
+  });
+
+  test('should return an error for a missing program file', () => {
+    const { result } = run(options('missing.json'));
+    expect(result.unwrapErr()).toEqual({
+      message: `${ProgramFileError.message}: missing.json`,
+    });
+  });
+
+  test('should return an error for an invalid program', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cairo-vm-ts-'));
+    try {
+      const programPath = path.join(dir, 'program.json');
+      fs.writeFileSync(programPath, '{ data: ');
+      const { result } = run(options(programPath));
+      expect(result.unwrapErr()).toEqual({
+        message: `${InvalidProgramError.message} ${programPath}: ${InvalidJsonError.message}`,
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  test('should return an error if an output file cannot be written', () => {
+    const traceFile = '/nonexistent/trace.bin';
+    const { result } = run({
+      ...options('cairo_programs/fibonacci.json'),
+      traceFile,
+    });
+    expect(result.unwrapErr().message).toStartWith(
+      `${OutputFileError.message} ${traceFile}: ${WriteFileError.message}`
+    );
+  });
+});
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { relocateAddress } from 'memory/memoryManager';
+import { Felt, Field } from 'primitives/felt';
+import { Program } from 'program/program';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { CairoRunner } from 'runner/cairoRunner';
+import { getLayout } from 'runner/layout';
+import { CliOptions } from './options';
+
+export const ProgramFileError = {
+  message: 'CliError: cannot read the program file',
+};
+
+export const InvalidProgramError = {
+  message: 'CliError: cannot load the program',
+};
+
+export const OutputFileError = {
+  message: 'CliError: cannot write the output file',
+};
+
+// Run a compiled program as `cairo-run` does: write the relocated trace
+// and memory and the AIR inputs to the given files,
+// then print what was asked for.
+export function runProgram(
+  options: CliOptions,
+  print: (line: string) => void = console.log
+): Result<true, VMError> {
+  let json: string;
+  try {
+    json = fs.readFileSync(options.programPath, 'utf8');
+  } catch {
+    return new Err({
+      message: `${ProgramFileError.message}: ${options.programPath}`,
+    });
+  }
+  const program = Program.fromJson(
+    json,
+    options.prime === undefined ? undefined : new Field(options.prime)
+  );
+  if (program.isErr()) {
+    return new Err({
+      message: `${InvalidProgramError.message} ${options.programPath}: ${
+        program.unwrapErr().message
+      }`,
+    });
+  }
+
+  const layout = getLayout(options.layout);
+  if (layout.isErr()) {
+    return layout;
+  }
+
+  const runner = new CairoRunner(program.unwrap(), {
+    layout: layout.unwrap(),
+    proofMode: options.proofMode,
+  });
+
+  const initialize = runner.initialize();
+  if (initialize.isErr()) {
+    return initialize;
+  }
+  const run = runner.run();
+  if (run.isErr()) {
+    return run;
+  }
+  const relocate = runner.relocate();
+  if (relocate.isErr()) {
+    return relocate;
+  }
+
+  if (options.traceFile !== undefined) {
+    const trace = runner.writeTraceFile(options.traceFile);
+    if (trace.isErr()) {
+      return outputFileError(options.traceFile, trace.unwrapErr());
+    }
+  }
+  if (options.memoryFile !== undefined) {
+    const memory = runner.writeMemoryFile(options.memoryFile);
+    if (memory.isErr()) {
+      return outputFileError(options.memoryFile, memory.unwrapErr());
+    }
+  }
+  if (options.airPublicInput !== undefined) {
+    const input = runner.writeAirPublicInput(options.airPublicInput);
+    if (input.isErr()) {
+      return outputFileError(options.airPublicInput, input.unwrapErr());
+    }
+  }
+  if (
+    options.airPrivateInput !== undefined &&
+    options.traceFile !== undefined &&
+    options.memoryFile !== undefined
+  ) {
+    // The prover reads the files from the paths of the private input.
+    const input = runner.writeAirPrivateInput(
+      options.airPrivateInput,
+      path.resolve(options.traceFile),
+      path.resolve(options.memoryFile)
+    );
+    if (input.isErr()) {
+      return outputFileError(options.airPrivateInput, input.unwrapErr());
+    }
+  }
+  if (options.printOutput) {
+    const output = printOutput(runner, print);
+    if (output.isErr()) {
+      return output;
+    }
+  }
+  if (options.printInfo) {
+    const info = printInfo(runner, print);
+    if (info.isErr()) {
+      return info;
+    }
+  }
+  return new Ok(true as const);
+}
+
+function outputFileError(file: string, error: VMError): Err<VMError> {
+  return new Err({
+    message: `${OutputFileError.message} ${file}: ${error.message}`,
+  });
+}
+
+function printOutput(
+  runner: CairoRunner,
+  print: (line: string) => void
+): Result<true, VMError> {
+  const output = runner.getOutput();
+  if (output.isErr()) {
+    return output;
+  }
+  print('Program output:');
+  output.unwrap().forEach((value) => print(`  ${toSigned(value)}`));
+  print('');
+  return new Ok(true as const);
+}
+
+function printInfo(
+  runner: CairoRunner,
+  print: (line: string) => void
+): Result<true, VMError> {
+  const { pc, ap, fp, steps } = runner.getState();
+  const table = runner.getRelocationTable();
+  const registers = [];
+  for (const register of [pc, ap, fp]) {
+    const address = relocateAddress(register, table);
+    if (address.isErr()) {
+      return address;
+    }
+    registers.push(address.unwrap());
+  }
+
+  print(`Number of steps: ${steps}`);
+  print(`Used memory cells: ${runner.getRelocatedMemory().size}`);
+  print('Register values after execution:');
+  print(`pc = ${registers[0]}`);
+  print(`ap = ${registers[1]}`);
+  print(`fp = ${registers[2]}`);
+
+  const segments = runner.vm.segments;
+  const names = new Map<number, string>([
+    [0, 'program'],
+    [runner.getExecutionBase().getSegmentIndex(), 'execution'],
+    ...runner.vm.builtins.map(
+      (builtin) => [builtin.getBase().getSegmentIndex(), builtin.name] as const
+    ),
+  ]);
+  print('Segment sizes:');
+  segments.computeEffectiveSizes().forEach((size, index) => {
+    const name = names.get(index);
+    print(`  ${index}${name ? ` (${name})` : ''}: ${size}`);
+  });
+
+  if (runner.vm.builtins.length > 0) {
+    print('Builtin usage:');
+    runner.vm.builtins.forEach((builtin) =>
+      print(
+        `  ${builtin.name}: ${builtin.getUsedCells(segments)} cells, ` +
+          `${builtin.getUsedInstances(segments)} instances`
+      )
+    );
+  }
+  return new Ok(true as const);
+}
+
+// Felts are printed as signed integers, as in cairo-lang:
+// PRIME - 1 is printed as -1.
+function toSigned(value: Felt): string {
+  const n = value.toBigInt();
+  const { prime } = value.field;
+  return (n > prime / 2n ? n - prime : n).toString();
+}
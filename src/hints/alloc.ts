@@ -0,0 +1,8 @@
+import { HintHandler } from './hintProcessor';
+
+export const ALLOC = 'memory[ap] = segments.add()';
+
+export const ALLOC_HINTS: Record<string, HintHandler> = {
+  [ALLOC]: (context) =>
+    context.setMemory(context.getAp(), context.addSegment()),
+};
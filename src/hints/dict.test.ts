@@ -0,0 +1,242 @@
+import { test, expect, describe } from 'bun:test';
+import { Felt } from 'primitives/felt';
+import { MaybeRelocatable, Relocatable } from 'primitives/relocatable';
+import { RunContext } from 'run-context/runContext';
+import { VirtualMachine } from 'vm/virtualMachine';
+import { HintData } from './hintData';
+import { parseReference } from './hintReference';
+import { VariableNotInScopeError } from './executionScopes';
+import {
+  DEFAULT_DICT_NEW,
+  DICT_NEW,
+  DICT_READ,
+  DICT_SQUASH_COPY_DICT,
+  DICT_SQUASH_UPDATE_PTR,
+  DICT_UPDATE,
+  DICT_WRITE,
+  DictUpdateError,
+} from './dict';
+import {
+  DictKeyNotFoundError,
+  DictManager,
+  WrongDictPointerError,
+  dictKey,
+} from './dictManager';
+import { VM_EXIT_SCOPE } from './scopes';
+
+const newVm = () => {
+  const vm = new VirtualMachine();
+  vm.segments.addSegment();
+  vm.segments.addSegment();
+  vm.runContext = new RunContext(0, 0, 0);
+  return vm;
+};
+
+// Run a hint whose variables are new cells of the execution segment, from fp,
+// set to the given values when defined. ap is the cell after them.
+const runHint = (
+  vm: VirtualMachine,
+  code: string,
+  variables: Record<string, MaybeRelocatable | undefined> = {}
+) => {
+  const names = Object.keys(variables);
+  const fp = vm.runContext.getAp().getOffset();
+  names.forEach((name, index) => {
+    const value = variables[name];
+    if (value !== undefined) {
+      vm.segments.memory.insert(new Relocatable(1, fp + index), value).unwrap();
+    }
+  });
+  vm.runContext = new RunContext(0, fp + names.length, fp);
+
+  const hint: HintData = {
+    code,
+    accessibleScopes: [],
+    apTracking: { group: 0, offset: 0 },
+    references: new Map(
+      names.map((name, index) => [
+        name,
+        parseReference(`[cast(fp + ${index}, felt*)]`, {
+          group: 0,
+          offset: 0,
+        }).unwrap(),
+      ])
+    ),
+    constants: new Map(),
+  };
+  const result = vm.hintProcessor.execute(vm, hint);
+  const cell = (offset: number) =>
+    vm.segments.memory.get(new Relocatable(1, fp + offset)).unwrap();
+  vm.runContext = new RunContext(0, fp + names.length + 1, fp);
+  return { result, cell, ap: names.length };
+};
+
+describe('dict hints', () => {
+  describe('dict_new', () => {
+    test('should allocate a dict with the initial dict of the scope', () => {
+      const vm = newVm();
+      vm.scopes.set(
+        'initial_dict',
+        new Map([[dictKey(new Felt(1n)), new Felt(7n)]])
+      );
+      const { result, cell, ap } = runHint(vm, DICT_NEW);
+      result.unwrap();
+
+      const dictPtr = cell(ap) as Relocatable;
+      expect(dictPtr).toEqual(new Relocatable(2, 0));
+      expect(vm.scopes.get('initial_dict').unwrapErr()).toEqual(
+        VariableNotInScopeError
+      );
+      const manager = vm.scopes.get<DictManager>('__dict_manager').unwrap();
+      const tracker = manager.getTracker(dictPtr).unwrap();
+      expect(tracker.get(new Felt(1n)).unwrap()).toEqual(new Felt(7n));
+    });
+
+    test('should return an error without initial dict', () => {
+      const { result } = runHint(newVm(), DICT_NEW);
+      expect(result.unwrapErr()).toEqual(VariableNotInScopeError);
+    });
+  });
+
+  describe('dict_read and dict_write', () => {
+    test('should write the previous value and read the new one', () => {
+      const vm = newVm();
+      const dict = runHint(vm, DEFAULT_DICT_NEW, {
+        default_value: new Felt(0n),
+      });
+      const base = dict.cell(dict.ap) as Relocatable;
+
+      runHint(vm, DICT_WRITE, {
+        dict_ptr: base,
+        key: new Felt(3n),
+        new_value: new Felt(10n),
+      }).result.unwrap();
+      // prev_value is the default value.
+      expect(vm.segments.memory.get(new Relocatable(2, 1)).unwrap()).toEqual(
+        new Felt(0n)
+      );
+
+      const read = runHint(vm, DICT_READ, {
+        dict_ptr: new Relocatable(2, 3),
+        key: new Felt(3n),
+        value: undefined,
+      });
+      read.result.unwrap();
+      expect(read.cell(2)).toEqual(new Felt(10n));
+    });
+
+    test('should return an error for a missing key of a dict', () => {
+      const vm = newVm();
+      vm.scopes.set('initial_dict', new Map());
+      const dict = runHint(vm, DICT_NEW);
+      const { result } = runHint(vm, DICT_READ, {
+        dict_ptr: dict.cell(dict.ap),
+        key: new Felt(3n),
+        value: undefined,
+      });
+      expect(result.unwrapErr()).toEqual(DictKeyNotFoundError);
+    });
+
+    test('should return an error if the dict pointer is not the last one', () => {
+      const vm = newVm();
+      const dict = runHint(vm, DEFAULT_DICT_NEW, {
+        default_value: new Felt(0n),
+      });
+      runHint(vm, DICT_READ, {
+        dict_ptr: dict.cell(dict.ap),
+        key: new Felt(3n),
+        value: undefined,
+      }).result.unwrap();
+
+      const { result } = runHint(vm, DICT_READ, {
+        dict_ptr: dict.cell(dict.ap),
+        key: new Felt(3n),
+        value: undefined,
+      });
+      expect(result.unwrapErr()).toEqual(WrongDictPointerError);
+    });
+  });
+
+  describe('dict_update', () => {
+    test('should check the previous value', () => {
+      const vm = newVm();
+      const dict = runHint(vm, DEFAULT_DICT_NEW, {
+        default_value: new Felt(5n),
+      });
+      const { result } = runHint(vm, DICT_UPDATE, {
+        dict_ptr: dict.cell(dict.ap),
+        key: new Felt(1n),
+        prev_value: new Felt(4n),
+        new_value: new Felt(6n),
+      });
+      expect(result.unwrapErr()).toEqual(DictUpdateError);
+
+      runHint(vm, DICT_UPDATE, {
+        dict_ptr: dict.cell(dict.ap),
+        key: new Felt(1n),
+        prev_value: new Felt(5n),
+        new_value: new Felt(6n),
+      }).result.unwrap();
+      const manager = vm.scopes.get<DictManager>('__dict_manager').unwrap();
+      const tracker = manager.getTracker(new Relocatable(2, 3)).unwrap();
+      expect(tracker.get(new Felt(1n)).unwrap()).toEqual(new Felt(6n));
+    });
+  });
+
+  describe('dict_squash', () => {
+    test('should copy the dict to the squashed dict', () => {
+      const vm = newVm();
+      const dict = runHint(vm, DEFAULT_DICT_NEW, {
+        default_value: new Felt(0n),
+      });
+      runHint(vm, DICT_WRITE, {
+        dict_ptr: dict.cell(dict.ap),
+        key: new Felt(3n),
+        new_value: new Felt(10n),
+      }).result.unwrap();
+
+      runHint(vm, DICT_SQUASH_COPY_DICT, {
+        dict_accesses_end: new Relocatable(2, 3),
+      }).result.unwrap();
+      const squashed = runHint(vm, DICT_NEW);
+      squashed.result.unwrap();
+      runHint(vm, VM_EXIT_SCOPE).result.unwrap();
+
+      const start = squashed.cell(squashed.ap) as Relocatable;
+      expect(start).toEqual(new Relocatable(3, 0));
+      runHint(vm, DICT_SQUASH_UPDATE_PTR, {
+        squashed_dict_start: start,
+        squashed_dict_end: new Relocatable(3, 3),
+      }).result.unwrap();
+
+      const manager = vm.scopes.get<DictManager>('__dict_manager').unwrap();
+      const tracker = manager.getTracker(new Relocatable(3, 3)).unwrap();
+      expect(tracker.get(new Felt(3n)).unwrap()).toEqual(new Felt(10n));
+    });
+
+    test('should copy the default values read from a default dict', () => {
+      const vm = newVm();
+      const dict = runHint(vm, DEFAULT_DICT_NEW, {
+        default_value: new Felt(7n),
+      });
+      runHint(vm, DICT_READ, {
+        dict_ptr: dict.cell(dict.ap),
+        key: new Felt(3n),
+        value: undefined,
+      }).result.unwrap();
+
+      runHint(vm, DICT_SQUASH_COPY_DICT, {
+        dict_accesses_end: new Relocatable(2, 3),
+      }).result.unwrap();
+      const squashed = runHint(vm, DICT_NEW);
+      squashed.result.unwrap();
+      runHint(vm, VM_EXIT_SCOPE).result.unwrap();
+
+      // The squashed dict is not a default dict: the key must be in it.
+      const manager = vm.scopes.get<DictManager>('__dict_manager').unwrap();
+      const start = squashed.cell(squashed.ap) as Relocatable;
+      const tracker = manager.getTracker(start).unwrap();
+      expect(tracker.get(new Felt(3n)).unwrap()).toEqual(new Felt(7n));
+    });
+  });
+});
@@ -0,0 +1,266 @@
+// Hints of the dicts of cairo-lang, i.e.
+// `starkware/cairo/common/dict.cairo` and `default_dict.cairo`.
+
+import { Felt } from 'primitives/felt';
+import { MaybeRelocatable } from 'primitives/relocatable';
+import { UnsignedInteger } from 'primitives/uint';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { DictData, DictManager, DictTracker } from './dictManager';
+import { ExecutionScopes } from './executionScopes';
+import { HintContext, HintHandler } from './hintProcessor';
+
+export const DictUpdateError = {
+  message: 'HintError: dict_update failed, wrong prev_value',
+};
+
+export const DICT_NEW = `if '__dict_manager' not in globals():
+    from starkware.cairo.common.dict import DictManager
+    __dict_manager = DictManager()
+
+memory[ap] = __dict_manager.new_dict(segments, initial_dict)
+del initial_dict`;
+
+export const DEFAULT_DICT_NEW = `if '__dict_manager' not in globals():
+    from starkware.cairo.common.dict import DictManager
+    __dict_manager = DictManager()
+
+memory[ap] = __dict_manager.new_default_dict(segments, ids.default_value)`;
+
+export const DICT_READ = `dict_tracker = __dict_manager.get_tracker(ids.dict_ptr)
+dict_tracker.current_ptr += ids.DictAccess.SIZE
+ids.value = dict_tracker.data[ids.key]`;
+
+export const DICT_WRITE = `dict_tracker = __dict_manager.get_tracker(ids.dict_ptr)
+dict_tracker.current_ptr += ids.DictAccess.SIZE
+ids.dict_ptr.prev_value = dict_tracker.data[ids.key]
+dict_tracker.data[ids.key] = ids.new_value`;
+
+export const DICT_UPDATE = `# Verify dict pointer and prev value.
+dict_tracker = __dict_manager.get_tracker(ids.dict_ptr)
+current_value = dict_tracker.data[ids.key]
+assert current_value == ids.prev_value, \\
+    f'Wrong prev_value in dict_update. Got {ids.prev_value}, expected {current_value}.'
+
+# Update value.
+dict_tracker.data[ids.key] = ids.new_value
+dict_tracker.current_ptr += ids.DictAccess.SIZE`;
+
+export const DICT_SQUASH_COPY_DICT = `# Prepare arguments for dict_new. In particular, the same dictionary values should be copied
+# to the new (squashed) dictionary.
+vm_enter_scope({
+    # Make __dict_manager accessible.
+    '__dict_manager': __dict_manager,
+    # Create a copy of the dict, in case it changes in the future.
+    'initial_dict': dict(__dict_manager.get_dict(ids.dict_accesses_end)),
+})`;
+
+export const DICT_SQUASH_UPDATE_PTR = `# Update the DictTracker's current_ptr to point to the end of the squashed dict.
+__dict_manager.get_tracker(ids.squashed_dict_start).current_ptr = \\
+    ids.squashed_dict_end.address_`;
+
+// Cells of a `DictAccess`: key, prev_value and new_value.
+export const DICT_ACCESS_SIZE = 3;
+const PREV_VALUE_OFFSET = 1;
+
+const DICT_MANAGER = '__dict_manager';
+
+// The dict manager of the current scope, created if there is none.
+function getOrCreateDictManager(scopes: ExecutionScopes): DictManager {
+  const manager = scopes.get<DictManager>(DICT_MANAGER);
+  if (manager.isOk()) {
+    return manager.unwrap();
+  }
+  const created = new DictManager();
+  scopes.set(DICT_MANAGER, created);
+  return created;
+}
+
+// The tracker of the dict of a `DictAccess*` variable.
+function getTracker(
+  { ids, scopes }: HintContext,
+  name: string
+): Result<DictTracker, VMError> {
+  const manager = scopes.get<DictManager>(DICT_MANAGER);
+  if (manager.isErr()) {
+    return manager;
+  }
+  const dictPtr = ids.getRelocatable(name);
+  if (dictPtr.isErr()) {
+    return dictPtr;
+  }
+  return manager.unwrap().getTracker(dictPtr.unwrap());
+}
+
+// Move the end of the dict after the access being written.
+function nextAccess(tracker: DictTracker): Result<true, VMError> {
+  const next = tracker.currentPtr.add(
+    UnsignedInteger.toUint32(DICT_ACCESS_SIZE).unwrap()
+  );
+  if (next.isErr()) {
+    return next;
+  }
+  tracker.currentPtr = next.unwrap();
+  return new Ok(true as const);
+}
+
+function isEqual(a: MaybeRelocatable, b: MaybeRelocatable): boolean {
+  return a instanceof Felt ? b instanceof Felt && a.eq(b) : a.eq(b);
+}
+
+function dictNew(context: HintContext): Result<true, VMError> {
+  const { vm, scopes } = context;
+  const initialDict = scopes.get<DictData>('initial_dict');
+  if (initialDict.isErr()) {
+    return initialDict;
+  }
+  const base = getOrCreateDictManager(scopes).newDict(
+    vm.segments,
+    initialDict.unwrap()
+  );
+  scopes.delete('initial_dict');
+  return context.setMemory(context.getAp(), base);
+}
+
+function defaultDictNew(context: HintContext): Result<true, VMError> {
+  const { vm, ids, scopes } = context;
+  const defaultValue = ids.get('default_value');
+  if (defaultValue.isErr()) {
+    return defaultValue;
+  }
+  const base = getOrCreateDictManager(scopes).newDefaultDict(
+    vm.segments,
+    defaultValue.unwrap()
+  );
+  return context.setMemory(context.getAp(), base);
+}
+
+function dictRead(context: HintContext): Result<true, VMError> {
+  const { ids } = context;
+  const tracker = getTracker(context, 'dict_ptr');
+  if (tracker.isErr()) {
+    return tracker;
+  }
+  const next = nextAccess(tracker.unwrap());
+  if (next.isErr()) {
+    return next;
+  }
+  const key = ids.get('key');
+  if (key.isErr()) {
+    return key;
+  }
+  const value = tracker.unwrap().get(key.unwrap());
+  if (value.isErr()) {
+    return value;
+  }
+  return ids.set('value', value.unwrap());
+}
+
+function dictWrite(context: HintContext): Result<true, VMError> {
+  const { ids } = context;
+  const tracker = getTracker(context, 'dict_ptr');
+  if (tracker.isErr()) {
+    return tracker;
+  }
+  const next = nextAccess(tracker.unwrap());
+  if (next.isErr()) {
+    return next;
+  }
+  const key = ids.get('key');
+  if (key.isErr()) {
+    return key;
+  }
+  const prevValue = tracker.unwrap().get(key.unwrap());
+  if (prevValue.isErr()) {
+    return prevValue;
+  }
+  const newValue = ids.get('new_value');
+  if (newValue.isErr()) {
+    return newValue;
+  }
+
+  // `ids.dict_ptr.prev_value` is the second cell of the access.
+  const address = ids
+    .getRelocatable('dict_ptr')
+    .unwrap()
+    .add(UnsignedInteger.toUint32(PREV_VALUE_OFFSET).unwrap());
+  if (address.isErr()) {
+    return address;
+  }
+  const insert = context.setMemory(address.unwrap(), prevValue.unwrap());
+  if (insert.isErr()) {
+    return insert;
+  }
+  tracker.unwrap().set(key.unwrap(), newValue.unwrap());
+  return new Ok(true as const);
+}
+
+function dictUpdate(context: HintContext): Result<true, VMError> {
+  const { ids } = context;
+  const tracker = getTracker(context, 'dict_ptr');
+  if (tracker.isErr()) {
+    return tracker;
+  }
+  const key = ids.get('key');
+  if (key.isErr()) {
+    return key;
+  }
+  const currentValue = tracker.unwrap().get(key.unwrap());
+  if (currentValue.isErr()) {
+    return currentValue;
+  }
+  const prevValue = ids.get('prev_value');
+  if (prevValue.isErr()) {
+    return prevValue;
+  }
+  if (!isEqual(currentValue.unwrap(), prevValue.unwrap())) {
+    return new Err(DictUpdateError);
+  }
+  const newValue = ids.get('new_value');
+  if (newValue.isErr()) {
+    return newValue;
+  }
+  tracker.unwrap().set(key.unwrap(), newValue.unwrap());
+  return nextAccess(tracker.unwrap());
+}
+
+// Enter the scope of the `dict_new` of the squashed dict,
+// with a copy of the content of the dict being squashed.
+function dictSquashCopyDict(context: HintContext): Result<true, VMError> {
+  const { scopes } = context;
+  const manager = scopes.get<DictManager>(DICT_MANAGER);
+  if (manager.isErr()) {
+    return manager;
+  }
+  const tracker = getTracker(context, 'dict_accesses_end');
+  if (tracker.isErr()) {
+    return tracker;
+  }
+  scopes.enterScope({
+    [DICT_MANAGER]: manager.unwrap(),
+    initial_dict: tracker.unwrap().getData(),
+  });
+  return new Ok(true as const);
+}
+
+function dictSquashUpdatePtr(context: HintContext): Result<true, VMError> {
+  const tracker = getTracker(context, 'squashed_dict_start');
+  if (tracker.isErr()) {
+    return tracker;
+  }
+  const end = context.ids.getRelocatable('squashed_dict_end');
+  if (end.isErr()) {
+    return end;
+  }
+  tracker.unwrap().currentPtr = end.unwrap();
+  return new Ok(true as const);
+}
+
+export const DICT_HINTS: Record<string, HintHandler> = {
+  [DICT_NEW]: dictNew,
+  [DEFAULT_DICT_NEW]: defaultDictNew,
+  [DICT_READ]: dictRead,
+  [DICT_WRITE]: dictWrite,
+  [DICT_UPDATE]: dictUpdate,
+  [DICT_SQUASH_COPY_DICT]: dictSquashCopyDict,
+  [DICT_SQUASH_UPDATE_PTR]: dictSquashUpdatePtr,
+};
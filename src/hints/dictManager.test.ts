@@ -0,0 +1,63 @@
+import { test, expect, describe } from 'bun:test';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import {
+  DictKeyNotFoundError,
+  DictManager,
+  UnknownDictError,
+  WrongDictPointerError,
+  dictKey,
+} from './dictManager';
+
+describe('DictManager', () => {
+  test('should track a new dict by its segment', () => {
+    const segments = new MemorySegmentManager();
+    segments.addSegment();
+    const manager = new DictManager();
+    const base = manager.newDict(segments);
+
+    expect(base).toEqual(new Relocatable(1, 0));
+    const tracker = manager.getTracker(base).unwrap();
+    expect(tracker.currentPtr).toEqual(base);
+    expect(tracker.get(new Felt(1n)).unwrapErr()).toEqual(DictKeyNotFoundError);
+  });
+
+  test('should tell felt and relocatable keys apart', () => {
+    const manager = new DictManager();
+    const base = manager.newDict(new MemorySegmentManager());
+    const tracker = manager.getTracker(base).unwrap();
+    tracker.set(new Felt(0n), new Felt(1n));
+    tracker.set(new Relocatable(0, 0), new Felt(2n));
+
+    expect(tracker.get(new Felt(0n)).unwrap()).toEqual(new Felt(1n));
+    expect(tracker.get(new Relocatable(0, 0)).unwrap()).toEqual(new Felt(2n));
+  });
+
+  test('should read the default value of a missing key', () => {
+    const manager = new DictManager();
+    const base = manager.newDefaultDict(
+      new MemorySegmentManager(),
+      new Felt(5n)
+    );
+    const tracker = manager.getTracker(base).unwrap();
+    expect(tracker.get(new Felt(1n)).unwrap()).toEqual(new Felt(5n));
+    expect(tracker.getData().get(dictKey(new Felt(1n)))).toEqual(new Felt(5n));
+  });
+
+  test('should return an error for an unknown dict', () => {
+    const manager = new DictManager();
+    expect(manager.getTracker(new Relocatable(4, 0)).unwrapErr()).toEqual(
+      UnknownDictError
+    );
+  });
+
+  test('should return an error for a pointer which is not the end of the dict', () => {
+    const manager = new DictManager();
+    const base = manager.newDict(new MemorySegmentManager());
+    expect(manager.getTracker(new Relocatable(0, 3)).unwrapErr()).toEqual(
+      WrongDictPointerError
+    );
+    expect(base).toEqual(new Relocatable(0, 0));
+  });
+});
@@ -0,0 +1,112 @@
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { Felt } from 'primitives/felt';
+import { MaybeRelocatable, Relocatable } from 'primitives/relocatable';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+
+export const UnknownDictError = {
+  message: 'DictManagerError: no dict is tracked in the segment',
+};
+
+export const WrongDictPointerError = {
+  message: 'DictManagerError: dict pointer is not the current end of the dict',
+};
+
+export const DictKeyNotFoundError = {
+  message: 'DictManagerError: key is not in the dict',
+};
+
+// Content of a dict, by key, as keys can be felts or relocatables.
+export type DictData = Map<string, MaybeRelocatable>;
+
+export function dictKey(key: MaybeRelocatable): string {
+  return key instanceof Felt ? key.toString() : `r${key.toString()}`;
+}
+
+/**
+ * Content of a dict of a Cairo program, i.e. its `DictAccess` segment,
+ * and the end of its accesses written so far.
+ * Reading a key absent from a default dict returns the default value and,
+ * as a Python `defaultdict`, stores it.
+ */
+export class DictTracker {
+  private data: DictData;
+
+  constructor(
+    public currentPtr: Relocatable,
+    data: DictData = new Map(),
+    readonly defaultValue?: MaybeRelocatable
+  ) {
+    this.data = new Map(data);
+  }
+
+  get(key: MaybeRelocatable): Result<MaybeRelocatable, VMError> {
+    const value = this.data.get(dictKey(key));
+    if (value !== undefined) {
+      return new Ok(value);
+    }
+    if (this.defaultValue === undefined) {
+      return new Err(DictKeyNotFoundError);
+    }
+    this.data.set(dictKey(key), this.defaultValue);
+    return new Ok(this.defaultValue);
+  }
+
+  set(key: MaybeRelocatable, value: MaybeRelocatable) {
+    this.data.set(dictKey(key), value);
+  }
+
+  // Copy of the content of the dict.
+  getData(): DictData {
+    return new Map(this.data);
+  }
+}
+
+/**
+ * Dicts of a Cairo program, i.e. `__dict_manager` in cairo-lang,
+ * by the index of their segment.
+ */
+export class DictManager {
+  private trackers: Map<number, DictTracker>;
+
+  constructor() {
+    this.trackers = new Map();
+  }
+
+  // Allocate the segment of a new dict and return its base.
+  newDict(
+    segments: MemorySegmentManager,
+    initialDict: DictData = new Map()
+  ): Relocatable {
+    const base = segments.addSegment();
+    this.trackers.set(
+      base.getSegmentIndex(),
+      new DictTracker(base, initialDict)
+    );
+    return base;
+  }
+
+  newDefaultDict(
+    segments: MemorySegmentManager,
+    defaultValue: MaybeRelocatable,
+    initialDict: DictData = new Map()
+  ): Relocatable {
+    const base = segments.addSegment();
+    this.trackers.set(
+      base.getSegmentIndex(),
+      new DictTracker(base, initialDict, defaultValue)
+    );
+    return base;
+  }
+
+  // Tracker of the dict whose accesses end at the given pointer.
+  getTracker(dictPtr: Relocatable): Result<DictTracker, VMError> {
+    const tracker = this.trackers.get(dictPtr.getSegmentIndex());
+    if (tracker === undefined) {
+      return new Err(UnknownDictError);
+    }
+    if (!tracker.currentPtr.eq(dictPtr)) {
+      return new Err(WrongDictPointerError);
+    }
+    return new Ok(tracker);
+  }
+}
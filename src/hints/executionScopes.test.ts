@@ -0,0 +1,53 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  ExecutionScopes,
+  ExitMainScopeError,
+  UnexitedScopeError,
+  VariableNotInScopeError,
+  VariableTypeError,
+} from './executionScopes';
+
+describe('ExecutionScopes', () => {
+  test('should start with the main scope only', () => {
+    const scopes = new ExecutionScopes();
+    expect(scopes.getDepth()).toEqual(1);
+    expect(scopes.checkAllExited().unwrap()).toBeTrue();
+  });
+
+  test('should get the variables of the current scope', () => {
+    const scopes = new ExecutionScopes();
+    scopes.set('a', 1);
+    scopes.enterScope({ n: 3n });
+
+    expect(scopes.getBigInt('n').unwrap()).toEqual(3n);
+    expect(scopes.get('a').unwrapErr()).toEqual(VariableNotInScopeError);
+
+    scopes.exitScope().unwrap();
+    expect(scopes.get<number>('a').unwrap()).toEqual(1);
+    expect(scopes.get('n').unwrapErr()).toEqual(VariableNotInScopeError);
+  });
+
+  test('should delete a variable', () => {
+    const scopes = new ExecutionScopes();
+    scopes.set('a', 1);
+    scopes.delete('a');
+    expect(scopes.get('a').unwrapErr()).toEqual(VariableNotInScopeError);
+  });
+
+  test('should return an error if a variable is not a bigint', () => {
+    const scopes = new ExecutionScopes();
+    scopes.set('n', 3);
+    expect(scopes.getBigInt('n').unwrapErr()).toEqual(VariableTypeError);
+  });
+
+  test('should return an error when exiting the main scope', () => {
+    const scopes = new ExecutionScopes();
+    expect(scopes.exitScope().unwrapErr()).toEqual(ExitMainScopeError);
+  });
+
+  test('should return an error if a scope was not exited', () => {
+    const scopes = new ExecutionScopes();
+    scopes.enterScope();
+    expect(scopes.checkAllExited().unwrapErr()).toEqual(UnexitedScopeError);
+  });
+});
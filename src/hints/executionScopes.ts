@@ -0,0 +1,89 @@
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+
+export const ExitMainScopeError = {
+  message: 'ExecutionScopesError: cannot exit the main scope',
+};
+
+export const VariableNotInScopeError = {
+  message: 'ExecutionScopesError: variable is not in the current scope',
+};
+
+export const VariableTypeError = {
+  message: 'ExecutionScopesError: variable does not have the expected type',
+};
+
+export const UnexitedScopeError = {
+  message:
+    'ExecutionScopesError: every scope entered by a hint must be exited by the end of the run',
+};
+
+/**
+ * Variables shared by hints, e.g. the loop counter `n` of memcpy,
+ * in a stack of scopes entered and exited by hints with
+ * `vm_enter_scope` and `vm_exit_scope`. Hints only access the variables
+ * of the current scope. The main scope is never exited.
+ */
+export class ExecutionScopes {
+  private scopes: Map<string, unknown>[];
+
+  constructor() {
+    this.scopes = [new Map()];
+  }
+
+  enterScope(variables: Record<string, unknown> = {}) {
+    this.scopes.push(new Map(Object.entries(variables)));
+  }
+
+  exitScope(): Result<true, VMError> {
+    if (this.scopes.length === 1) {
+      return new Err(ExitMainScopeError);
+    }
+    this.scopes.pop();
+    return new Ok(true as const);
+  }
+
+  // Number of scopes, the main one included.
+  getDepth(): number {
+    return this.scopes.length;
+  }
+
+  // The value of a variable, whose type is up to the hints sharing it.
+  get<T>(name: string): Result<T, VMError> {
+    const scope = this.currentScope();
+    if (!scope.has(name)) {
+      return new Err(VariableNotInScopeError);
+    }
+    return new Ok(scope.get(name) as T);
+  }
+
+  getBigInt(name: string): Result<bigint, VMError> {
+    const value = this.get<unknown>(name);
+    if (value.isErr()) {
+      return value;
+    }
+    if (typeof value.unwrap() !== 'bigint') {
+      return new Err(VariableTypeError);
+    }
+    return new Ok(value.unwrap() as bigint);
+  }
+
+  set<T>(name: string, value: T) {
+    this.currentScope().set(name, value);
+  }
+
+  delete(name: string) {
+    this.currentScope().delete(name);
+  }
+
+  // At the end of a run, only the main scope should remain.
+  checkAllExited(): Result<true, VMError> {
+    if (this.scopes.length !== 1) {
+      return new Err(UnexitedScopeError);
+    }
+    return new Ok(true as const);
+  }
+
+  private currentScope(): Map<string, unknown> {
+    return this.scopes[this.scopes.length - 1];
+  }
+}
@@ -0,0 +1,66 @@
+import { test, expect, describe } from 'bun:test';
+import { Felt, Field } from 'primitives/felt';
+import { Identifier, Program } from 'program/program';
+import { None } from 'option-pattern/option';
+import { UnknownReferenceError, compileHint } from './hintData';
+
+const program = (identifiers: Record<string, Identifier>) =>
+  new Program(
+    Field.STARKNET,
+    [],
+    [],
+    '__main__',
+    new Map(Object.entries(identifiers)),
+    new Map(),
+    [
+      {
+        apTrackingData: { group: 0, offset: 1 },
+        pc: new None(),
+        value: '[cast(fp + (-3), felt*)]',
+      },
+    ],
+    new None()
+  );
+
+const hint = (code: string, referenceIds: Record<string, number>) => ({
+  code,
+  accessibleScopes: ['__main__', '__main__.f'],
+  flowTrackingData: {
+    apTracking: { group: 0, offset: 2 },
+    referenceIds,
+  },
+});
+
+describe('compileHint', () => {
+  test('should resolve the references by their short name', () => {
+    const data = compileHint(
+      hint('ids.x = 1', { '__main__.f.x': 0 }),
+      program({})
+    ).unwrap();
+
+    expect([...data.references.keys()]).toEqual(['x']);
+    expect(data.references.get('x')?.apTracking).toEqual({
+      group: 0,
+      offset: 1,
+    });
+  });
+
+  test('should resolve constants from the innermost scope', () => {
+    const data = compileHint(
+      hint('ids.x = ids.SHIFT', {}),
+      program({
+        '__main__.SHIFT': { type: 'const', value: 1n },
+        '__main__.f.SHIFT': { type: 'alias', destination: '__main__.BOUND' },
+        '__main__.BOUND': { type: 'const', value: -1n },
+      })
+    ).unwrap();
+
+    expect(data.constants.get('SHIFT')).toEqual(new Felt(Felt.PRIME - 1n));
+  });
+
+  test('should return an error for an unknown reference', () => {
+    expect(
+      compileHint(hint('', { '__main__.f.x': 3 }), program({})).unwrapErr()
+    ).toEqual(UnknownReferenceError);
+  });
+});
@@ -0,0 +1,76 @@
+import { Felt } from 'primitives/felt';
+import { ApTracking, HintParams, Program } from 'program/program';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { HintReference, parseReference } from './hintReference';
+
+export const UnknownReferenceError = {
+  message: 'HintError: hint refers to an unknown reference',
+};
+
+// A hint of the program, ready to be executed: the variables it can access
+// through `ids` are resolved once, when the program is loaded.
+export type HintData = {
+  code: string;
+  accessibleScopes: string[];
+  apTracking: ApTracking;
+  // References accessible by the hint, by name, e.g. `x` for `__main__.main.x`.
+  references: Map<string, HintReference>;
+  // Constants used by the hint through `ids`, by name.
+  constants: Map<string, Felt>;
+};
+
+export function compileHint(
+  hint: HintParams,
+  program: Program
+): Result<HintData, VMError> {
+  const references = new Map<string, HintReference>();
+  for (const [path, id] of Object.entries(hint.flowTrackingData.referenceIds)) {
+    const reference = program.references[id];
+    if (reference === undefined) {
+      return new Err(UnknownReferenceError);
+    }
+    const parsed = parseReference(reference.value, reference.apTrackingData);
+    if (parsed.isErr()) {
+      return parsed;
+    }
+    references.set(path.split('.').pop()!, parsed.unwrap());
+  }
+
+  // As in cairo-lang, other names are looked up as constants,
+  // from the innermost accessible scope.
+  const constants = new Map<string, Felt>();
+  for (const [, name] of hint.code.matchAll(/\bids\.(\w+)/g)) {
+    if (references.has(name) || constants.has(name)) {
+      continue;
+    }
+    for (const scope of [...hint.accessibleScopes].reverse()) {
+      const value = resolveConstant(`${scope}.${name}`, program);
+      if (value !== undefined) {
+        constants.set(name, value);
+        break;
+      }
+    }
+  }
+
+  return new Ok({
+    code: hint.code,
+    accessibleScopes: hint.accessibleScopes,
+    apTracking: hint.flowTrackingData.apTracking,
+    references,
+    constants,
+  });
+}
+
+function resolveConstant(
+  name: string,
+  { identifiers, field }: Program
+): Felt | undefined {
+  let identifier = identifiers.get(name);
+  while (identifier?.type === 'alias' && identifier.destination) {
+    identifier = identifiers.get(identifier.destination);
+  }
+  if (identifier?.type !== 'const' || identifier.value === undefined) {
+    return undefined;
+  }
+  return field.reduce(identifier.value);
+}
@@ -0,0 +1,82 @@
+import { test, expect, describe } from 'bun:test';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { Ok } from 'result-pattern/result';
+import { RunContext } from 'run-context/runContext';
+import { VirtualMachine } from 'vm/virtualMachine';
+import { ALLOC } from './alloc';
+import { HintData } from './hintData';
+import { parseReference } from './hintReference';
+import { HintProcessor, UnknownHintError } from './hintProcessor';
+
+const hint = (code: string): HintData => ({
+  code,
+  accessibleScopes: [],
+  apTracking: { group: 0, offset: 0 },
+  references: new Map([
+    [
+      'x',
+      parseReference('[cast(fp, felt*)]', { group: 0, offset: 0 }).unwrap(),
+    ],
+  ]),
+  constants: new Map(),
+});
+
+const setup = () => {
+  const vm = new VirtualMachine();
+  vm.segments.addSegment();
+  vm.segments.addSegment();
+  vm.runContext = new RunContext(3, 1, 0);
+  return vm;
+};
+
+describe('HintProcessor', () => {
+  test('should execute a common library hint', () => {
+    const vm = setup();
+    vm.hintProcessor.execute(vm, hint(ALLOC)).unwrap();
+
+    expect(vm.segments.memory.get(new Relocatable(1, 1)).unwrap()).toEqual(
+      new Relocatable(2, 0)
+    );
+  });
+
+  test('should execute a registered custom hint', () => {
+    const vm = setup();
+    vm.hintProcessor.registerHint('ids.x = 42', ({ ids, scopes }) => {
+      scopes.set('called', true);
+      return ids.set('x', new Felt(42n));
+    });
+    vm.hintProcessor.execute(vm, hint('ids.x = 42')).unwrap();
+
+    expect(vm.segments.memory.get(new Relocatable(1, 0)).unwrap()).toEqual(
+      new Felt(42n)
+    );
+    expect(vm.scopes.get('called').unwrap()).toBeTrue();
+  });
+
+  test('should give access to the registers, memory and segments', () => {
+    const vm = setup();
+    vm.hintProcessor.registerHint('custom_hint', (context) => {
+      expect(context.getPc()).toEqual(new Relocatable(0, 3));
+      expect(context.getFp()).toEqual(new Relocatable(1, 0));
+      const segment = context.addSegment();
+      context.setMemory(context.getAp(), segment).unwrap();
+      expect(context.getMemory(context.getAp()).unwrap()).toEqual(segment);
+      return new Ok(true as const);
+    });
+
+    expect(vm.hintProcessor.hasHint(' custom_hint\n')).toBeTrue();
+    expect(vm.hintProcessor.execute(vm, hint('custom_hint')).isOk()).toBeTrue();
+  });
+
+  test('should return an error naming the pc and the code of an unknown hint', () => {
+    const vm = setup();
+    const error = new HintProcessor()
+      .execute(vm, hint('print(ids.x)'))
+      .unwrapErr();
+
+    expect(error.message).toEqual(
+      `${UnknownHintError.message} at pc 0:3:\nprint(ids.x)`
+    );
+  });
+});
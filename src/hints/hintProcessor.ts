@@ -0,0 +1,120 @@
+import { MaybeRelocatable, Relocatable } from 'primitives/relocatable';
+import { Option } from 'option-pattern/option';
+import { Result, Err, VMError } from 'result-pattern/result';
+import { VirtualMachine } from 'vm/virtualMachine';
+import { ExecutionScopes } from './executionScopes';
+import { HintData } from './hintData';
+import { IdsManager } from './idsManager';
+import { ALLOC_HINTS } from './alloc';
+import { DICT_HINTS } from './dict';
+import { MATH_HINTS } from './math';
+import { MEMCPY_HINTS } from './memcpy';
+import { SCOPE_HINTS } from './scopes';
+import { SEGMENTS_HINTS } from './segments';
+import { SIGNATURE_HINTS } from './signature';
+import { SQUASH_DICT_HINTS } from './squashDict';
+
+export const UnknownHintError = {
+  message: 'HintError: no handler registered for the hint',
+};
+
+/**
+ * What a hint can access: its Cairo variables through `ids`,
+ * the registers, the memory and the variables shared between hints.
+ */
+export class HintContext {
+  readonly ids: IdsManager;
+
+  readonly scopes: ExecutionScopes;
+
+  constructor(
+    readonly vm: VirtualMachine,
+    readonly hint: HintData
+  ) {
+    this.ids = new IdsManager(hint, vm);
+    this.scopes = vm.scopes;
+  }
+
+  getPc(): Relocatable {
+    return this.vm.runContext.getPc();
+  }
+
+  getAp(): Relocatable {
+    return this.vm.runContext.getAp();
+  }
+
+  getFp(): Relocatable {
+    return this.vm.runContext.getFp();
+  }
+
+  getMemory(address: Relocatable): Option<MaybeRelocatable> {
+    return this.vm.segments.memory.get(address);
+  }
+
+  setMemory(
+    address: Relocatable,
+    value: MaybeRelocatable
+  ): Result<true, VMError> {
+    return this.vm.segments.memory.insert(address, value);
+  }
+
+  // Allocate a new segment, as `segments.add()` in cairo-lang.
+  addSegment(): Relocatable {
+    return this.vm.segments.addSegment();
+  }
+
+  // Allocate a temporary segment, as `segments.add_temp_segment()`.
+  addTempSegment(): Relocatable {
+    return this.vm.segments.addTempSegment();
+  }
+}
+
+export type HintHandler = (context: HintContext) => Result<true, VMError>;
+
+/**
+ * Executes the hints of a program, i.e. Python code run before
+ * an instruction, through TypeScript implementations keyed by hint code.
+ * The common library hints are registered by default, others can be
+ * registered with `registerHint`.
+ */
+export class HintProcessor {
+  private handlers: Map<string, HintHandler>;
+
+  constructor() {
+    this.handlers = new Map(
+      Object.entries({
+        ...ALLOC_HINTS,
+        ...DICT_HINTS,
+        ...MATH_HINTS,
+        ...MEMCPY_HINTS,
+        ...SCOPE_HINTS,
+        ...SEGMENTS_HINTS,
+        ...SIGNATURE_HINTS,
+        ...SQUASH_DICT_HINTS,
+      })
+    );
+  }
+
+  // Register the handler of a hint, by its code between `%{` and `%}`.
+  // Custom hints may use a short id as code, e.g. `%{ my_hint %}`.
+  // A handler registered for an existing hint replaces it.
+  registerHint(code: string, handler: HintHandler) {
+    this.handlers.set(code.trim(), handler);
+  }
+
+  hasHint(code: string): boolean {
+    return this.handlers.has(code.trim());
+  }
+
+  execute(vm: VirtualMachine, hint: HintData): Result<true, VMError> {
+    const handler = this.handlers.get(hint.code.trim());
+    if (handler === undefined) {
+      return new Err({
+        message: `${
+          UnknownHintError.message
+        } at pc ${vm.runContext.getPc()}:\n${hint.code}`,
+      });
+    }
+    return handler(new HintContext(vm, hint));
+  }
+}
@@ -0,0 +1,83 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  InvalidReferenceError,
+  parseExpression,
+  parseReference,
+} from './hintReference';
+
+const AP_TRACKING = { group: 0, offset: 0 };
+
+describe('parseReference', () => {
+  test('should parse a dereferenced cast', () => {
+    expect(
+      parseReference('[cast(fp + (-3), felt*)]', AP_TRACKING).unwrap()
+    ).toEqual({
+      expression: {
+        type: 'add',
+        left: { type: 'register', register: 'fp' },
+        right: { type: 'constant', value: -3n },
+      },
+      dereference: true,
+      cairoType: 'felt*',
+      apTracking: AP_TRACKING,
+    });
+  });
+
+  test('should parse a cast of a dereferenced register', () => {
+    const reference = parseReference(
+      'cast([ap + (-1)] + 2, felt*)',
+      AP_TRACKING
+    ).unwrap();
+
+    expect(reference.dereference).toBeFalse();
+    expect(reference.expression).toEqual({
+      type: 'add',
+      left: {
+        type: 'deref',
+        inner: {
+          type: 'add',
+          left: { type: 'register', register: 'ap' },
+          right: { type: 'constant', value: -1n },
+        },
+      },
+      right: { type: 'constant', value: 2n },
+    });
+  });
+
+  test('should parse a cast to a tuple type', () => {
+    const reference = parseReference(
+      '[cast(fp, (a: felt, b: felt)*)]',
+      AP_TRACKING
+    ).unwrap();
+
+    expect(reference.expression).toEqual({ type: 'register', register: 'fp' });
+    expect(reference.cairoType).toEqual('(a: felt, b: felt)*');
+  });
+
+  test('should return an error for a value without cast', () => {
+    expect(parseReference('[fp + (-3)]', AP_TRACKING).unwrapErr()).toEqual(
+      InvalidReferenceError
+    );
+  });
+});
+
+describe('parseExpression', () => {
+  test('should parse hexadecimal constants', () => {
+    expect(parseExpression('0x10').unwrap()).toEqual({
+      type: 'constant',
+      value: 16n,
+    });
+  });
+
+  test('should return an error for unbalanced brackets', () => {
+    expect(parseExpression('[fp + 1').unwrapErr()).toEqual(
+      InvalidReferenceError
+    );
+  });
+
+  test('should return an error for unsupported operators', () => {
+    expect(parseExpression('fp * 2').unwrapErr()).toEqual(
+      InvalidReferenceError
+    );
+  });
+});
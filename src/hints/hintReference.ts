@@ -0,0 +1,129 @@
+// Parser of the references of the reference manager, e.g.
+// `[cast(fp + (-3), felt*)]` or `cast([ap + (-1)] + 2, felt*)`,
+// so that hints can access the Cairo variables through `ids`.
+
+import { ApTracking } from 'program/program';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+
+export const InvalidReferenceError = {
+  message: 'HintReferenceError: reference value cannot be parsed',
+};
+
+export type Register = 'ap' | 'fp';
+
+// Expression of the address or the value of a reference.
+export type Expression =
+  | { type: 'register'; register: Register }
+  | { type: 'constant'; value: bigint }
+  | { type: 'deref'; inner: Expression }
+  | { type: 'add'; left: Expression; right: Expression };
+
+export type HintReference = {
+  expression: Expression;
+  // Whether the reference is the memory cell at the address of the expression,
+  // e.g. `[cast(fp + (-3), felt*)]`, or the value of the expression itself.
+  dereference: boolean;
+  cairoType: string;
+  apTracking: ApTracking;
+};
+
+export function parseReference(
+  value: string,
+  apTracking: ApTracking
+): Result<HintReference, VMError> {
+  let text = value.trim();
+  const dereference = text.startsWith('[') && text.endsWith(']');
+  if (dereference) {
+    text = text.slice(1, -1).trim();
+  }
+  if (!text.startsWith('cast(') || !text.endsWith(')')) {
+    return new Err(InvalidReferenceError);
+  }
+
+  // The Cairo type may itself contain commas, e.g. for tuples:
+  // the expression ends at the first top-level comma.
+  const inner = text.slice('cast('.length, -1);
+  let depth = 0;
+  let comma = -1;
+  for (let i = 0; i < inner.length && comma === -1; i++) {
+    if ('([{'.includes(inner[i])) depth++;
+    if (')]}'.includes(inner[i])) depth--;
+    if (inner[i] === ',' && depth === 0) comma = i;
+  }
+  if (comma === -1) {
+    return new Err(InvalidReferenceError);
+  }
+
+  const expression = parseExpression(inner.slice(0, comma));
+  if (expression.isErr()) {
+    return expression;
+  }
+  return new Ok({
+    expression: expression.unwrap(),
+    dereference,
+    cairoType: inner.slice(comma + 1).trim(),
+    apTracking,
+  });
+}
+
+const TOKEN = /\s*(0x[0-9a-fA-F]+|\d+|ap|fp|[[\]()+-])/y;
+
+// Recursive descent parser of the grammar:
+// expr := unary ('+' unary)*
+// unary := '-' unary | '[' expr ']' | '(' expr ')' | 'ap' | 'fp' | integer
+export function parseExpression(text: string): Result<Expression, VMError> {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < text.trimEnd().length) {
+    const match = TOKEN.exec(text);
+    if (match === null) {
+      return new Err(InvalidReferenceError);
+    }
+    tokens.push(match[1]);
+  }
+
+  let position = 0;
+  const next = () => tokens[position++];
+  const peek = () => tokens[position];
+
+  const parseSum = (): Expression | undefined => {
+    let left = parseUnary();
+    while (left !== undefined && peek() === '+') {
+      next();
+      const right = parseUnary();
+      left = right && { type: 'add', left, right };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expression | undefined => {
+    const token = next();
+    if (token === '-') {
+      const operand = parseUnary();
+      if (operand?.type !== 'constant') {
+        return undefined;
+      }
+      return { type: 'constant', value: -operand.value };
+    }
+    if (token === '[' || token === '(') {
+      const inner = parseSum();
+      if (next() !== (token === '[' ? ']' : ')')) {
+        return undefined;
+      }
+      return inner && (token === '[' ? { type: 'deref', inner } : inner);
+    }
+    if (token === 'ap' || token === 'fp') {
+      return { type: 'register', register: token };
+    }
+    if (token !== undefined && /^(0x[0-9a-fA-F]+|\d+)$/.test(token)) {
+      return { type: 'constant', value: BigInt(token) };
+    }
+    return undefined;
+  };
+
+  const expression = parseSum();
+  if (expression === undefined || position !== tokens.length) {
+    return new Err(InvalidReferenceError);
+  }
+  return new Ok(expression);
+}
@@ -0,0 +1,117 @@
+import { test, expect, describe } from 'bun:test';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { RunContext } from 'run-context/runContext';
+import { VirtualMachine } from 'vm/virtualMachine';
+import { HintData } from './hintData';
+import { parseReference } from './hintReference';
+import {
+  ApTrackingGroupError,
+  ExpectedRelocatableError,
+  IdsManager,
+  NotAnAddressError,
+  UnknownIdentifierError,
+} from './idsManager';
+
+// A VM whose execution segment holds [10, 20, 30], with fp = ap = 3.
+const setup = (references: Record<string, string>, apOffset: number = 0) => {
+  const vm = new VirtualMachine();
+  vm.segments.addSegment();
+  const execution = vm.segments.addSegment();
+  vm.segments
+    .loadData(execution, [new Felt(10n), new Felt(20n), new Felt(30n)])
+    .unwrap();
+  vm.runContext = new RunContext(0, 3, 3);
+
+  const hint: HintData = {
+    code: '',
+    accessibleScopes: [],
+    apTracking: { group: 1, offset: apOffset },
+    references: new Map(
+      Object.entries(references).map(([name, value]) => [
+        name,
+        parseReference(value, { group: 1, offset: 0 }).unwrap(),
+      ])
+    ),
+    constants: new Map([['SHIFT', new Felt(1n << 128n)]]),
+  };
+  return { vm, ids: new IdsManager(hint, vm) };
+};
+
+describe('IdsManager', () => {
+  describe('get', () => {
+    test('should read a variable relative to fp', () => {
+      const { ids } = setup({ x: '[cast(fp + (-2), felt*)]' });
+      expect(ids.get('x').unwrap()).toEqual(new Felt(20n));
+    });
+
+    test('should correct a variable relative to ap with the ap tracking', () => {
+      // ap moved by 1 since the reference was defined.
+      const { ids } = setup({ x: '[cast(ap + (-1), felt*)]' }, 1);
+      expect(ids.get('x').unwrap()).toEqual(new Felt(20n));
+    });
+
+    test('should evaluate a variable which is not a memory cell', () => {
+      const { ids } = setup({ ptr: 'cast(fp + (-3), felt*)' });
+      expect(ids.get('ptr').unwrap()).toEqual(new Relocatable(1, 0));
+    });
+
+    test('should read a constant', () => {
+      const { ids } = setup({});
+      expect(ids.get('SHIFT').unwrap()).toEqual(new Felt(1n << 128n));
+    });
+
+    test('should return an error for an unknown variable', () => {
+      const { ids } = setup({});
+      expect(ids.get('x').unwrapErr()).toEqual(UnknownIdentifierError);
+    });
+
+    test('should return an error for another ap tracking group', () => {
+      const { vm } = setup({});
+      const hint: HintData = {
+        code: '',
+        accessibleScopes: [],
+        apTracking: { group: 2, offset: 0 },
+        references: new Map([
+          [
+            'x',
+            parseReference('[cast(ap, felt*)]', {
+              group: 1,
+              offset: 0,
+            }).unwrap(),
+          ],
+        ]),
+        constants: new Map(),
+      };
+      expect(new IdsManager(hint, vm).get('x').unwrapErr()).toEqual(
+        ApTrackingGroupError
+      );
+    });
+  });
+
+  describe('getRelocatable', () => {
+    test('should return an error for a felt', () => {
+      const { ids } = setup({ x: '[cast(fp + (-2), felt*)]' });
+      expect(ids.getRelocatable('x').unwrapErr()).toEqual(
+        ExpectedRelocatableError
+      );
+    });
+  });
+
+  describe('set', () => {
+    test('should write to the memory cell of a variable', () => {
+      const { vm, ids } = setup({ y: '[cast(fp, felt*)]' });
+      ids.set('y', new Felt(40n)).unwrap();
+      expect(vm.segments.memory.get(new Relocatable(1, 3)).unwrap()).toEqual(
+        new Felt(40n)
+      );
+    });
+
+    test('should return an error for a variable which is not a memory cell', () => {
+      const { ids } = setup({ ptr: 'cast(fp + (-3), felt*)' });
+      expect(ids.set('ptr', new Felt(1n)).unwrapErr()).toEqual(
+        NotAnAddressError
+      );
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { Felt } from 'primitives/felt';
+import { MaybeRelocatable, Relocatable } from 'primitives/relocatable';
+import { UnsignedInteger } from 'primitives/uint';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { VirtualMachine } from 'vm/virtualMachine';
+import { HintData } from './hintData';
+import { Expression, HintReference } from './hintReference';
+
+export const UnknownIdentifierError = {
+  message: 'IdsError: unknown identifier',
+};
+
+export const ApTrackingGroupError = {
+  message:
+    'IdsError: cannot compute ap of a reference from another ap tracking group',
+};
+
+export const NotAnAddressError = {
+  message: 'IdsError: identifier is not a memory cell',
+};
+
+export const UnknownIdValueError = {
+  message: 'IdsError: identifier value is not in memory',
+};
+
+export const InvalidIdExpressionError = {
+  message: 'IdsError: identifier expression cannot be evaluated',
+};
+
+export const ExpectedFeltError = {
+  message: 'IdsError: identifier value should be a felt',
+};
+
+export const ExpectedRelocatableError = {
+  message: 'IdsError: identifier value should be a relocatable',
+};
+
+/**
+ * Access to the Cairo variables of a hint, i.e. `ids` in cairo-lang.
+ * References relative to ap are corrected with the ap tracking of the hint,
+ * as ap may have moved since the reference was defined.
+ */
+export class IdsManager {
+  constructor(
+    private hint: HintData,
+    private vm: VirtualMachine
+  ) {}
+
+  // Address of the memory cell of a variable.
+  getAddress(name: string): Result<Relocatable, VMError> {
+    const reference = this.hint.references.get(name);
+    if (reference === undefined) {
+      return new Err(UnknownIdentifierError);
+    }
+    if (!reference.dereference) {
+      return new Err(NotAnAddressError);
+    }
+    const address = this.evaluate(reference.expression, reference);
+    if (address.isErr()) {
+      return address;
+    }
+    if (!(address.unwrap() instanceof Relocatable)) {
+      return new Err(NotAnAddressError);
+    }
+    return new Ok(address.unwrap() as Relocatable);
+  }
+
+  get(name: string): Result<MaybeRelocatable, VMError> {
+    const constant = this.hint.constants.get(name);
+    if (constant !== undefined) {
+      return new Ok(constant);
+    }
+
+    const reference = this.hint.references.get(name);
+    if (reference === undefined) {
+      return new Err(UnknownIdentifierError);
+    }
+    if (!reference.dereference) {
+      return this.evaluate(reference.expression, reference);
+    }
+
+    const address = this.getAddress(name);
+    if (address.isErr()) {
+      return address;
+    }
+    const value = this.vm.segments.memory.get(address.unwrap());
+    if (value.isNone()) {
+      return new Err(UnknownIdValueError);
+    }
+    return new Ok(value.unwrap());
+  }
+
+  getFelt(name: string): Result<Felt, VMError> {
+    const value = this.get(name);
+    if (value.isErr()) {
+      return value;
+    }
+    if (!(value.unwrap() instanceof Felt)) {
+      return new Err(ExpectedFeltError);
+    }
+    return new Ok(value.unwrap() as Felt);
+  }
+
+  getRelocatable(name: string): Result<Relocatable, VMError> {
+    const value = this.get(name);
+    if (value.isErr()) {
+      return value;
+    }
+    if (!(value.unwrap() instanceof Relocatable)) {
+      return new Err(ExpectedRelocatableError);
+    }
+    return new Ok(value.unwrap() as Relocatable);
+  }
+
+  set(name: string, value: MaybeRelocatable): Result<true, VMError> {
+    const address = this.getAddress(name);
+    if (address.isErr()) {
+      return address;
+    }
+    return this.vm.segments.memory.insert(address.unwrap(), value);
+  }
+
+  private evaluate(
+    expression: Expression,
+    reference: HintReference
+  ): Result<MaybeRelocatable, VMError> {
+    switch (expression.type) {
+      case 'register':
+        if (expression.register === 'fp') {
+          return new Ok(this.vm.runContext.getFp());
+        }
+        return this.correctedAp(reference);
+
+      case 'constant':
+        return new Ok(this.vm.field.reduce(expression.value));
+
+      case 'deref': {
+        const address = this.evaluate(expression.inner, reference);
+        if (address.isErr()) {
+          return address;
+        }
+        if (!(address.unwrap() instanceof Relocatable)) {
+          return new Err(InvalidIdExpressionError);
+        }
+        const value = this.vm.segments.memory.get(
+          address.unwrap() as Relocatable
+        );
+        if (value.isNone()) {
+          return new Err(UnknownIdValueError);
+        }
+        return new Ok(value.unwrap());
+      }
+
+      case 'add': {
+        const left = this.evaluate(expression.left, reference);
+        if (left.isErr()) {
+          return left;
+        }
+        const right = this.evaluate(expression.right, reference);
+        if (right.isErr()) {
+          return right;
+        }
+        const [a, b] = [left.unwrap(), right.unwrap()];
+        if (a instanceof Felt && b instanceof Felt) {
+          return new Ok(a.add(b));
+        }
+        if (a instanceof Relocatable && b instanceof Felt) {
+          return a.add(b);
+        }
+        if (a instanceof Felt && b instanceof Relocatable) {
+          return b.add(a);
+        }
+        return new Err(InvalidIdExpressionError);
+      }
+    }
+  }
+
+  // ap when the reference was defined: the hint ap tracking offset
+  // minus the reference one is the number of cells ap moved since.
+  private correctedAp(reference: HintReference): Result<Relocatable, VMError> {
+    const { group, offset } = this.hint.apTracking;
+    if (reference.apTracking.group !== group) {
+      return new Err(ApTrackingGroupError);
+    }
+    const ap = this.vm.runContext.getAp();
+    const diff = offset - reference.apTracking.offset;
+    const delta = UnsignedInteger.toUint32(Math.abs(diff));
+    if (delta.isErr()) {
+      return delta;
+    }
+    return diff >= 0 ? ap.sub(delta.unwrap()) : ap.add(delta.unwrap());
+  }
+}
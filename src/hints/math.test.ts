@@ -0,0 +1,237 @@
+import { test, expect, describe } from 'bun:test';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { RunContext } from 'run-context/runContext';
+import { VirtualMachine } from 'vm/virtualMachine';
+import { HintData } from './hintData';
+import { parseReference } from './hintReference';
+import {
+  ASSERT_250_BIT,
+  ASSERT_LE_FELT,
+  ASSERT_LE_FELT_EXCLUDED_0,
+  ASSERT_NN,
+  ASSERT_NOT_EQUAL,
+  ASSERT_NOT_ZERO,
+  AssertLeFeltError,
+  AssertNnError,
+  AssertNotEqualError,
+  AssertNotZeroError,
+  DivOutOfRangeError,
+  IS_LE_FELT,
+  IS_NN,
+  NonComparableValuesError,
+  SPLIT_FELT,
+  SplitFeltConstantsError,
+  UNSIGNED_DIV_REM,
+} from './math';
+
+// Run a hint whose variables are the cells of the execution segment,
+// from fp: the first ones are set to the given values.
+// The third segment stands for the range check segment.
+const runHint = (
+  code: string,
+  names: string[],
+  values: (Felt | Relocatable)[],
+  constants: Record<string, bigint> = {}
+) => {
+  const vm = new VirtualMachine();
+  vm.segments.addSegment();
+  const execution = vm.segments.addSegment();
+  vm.segments.addSegment();
+  vm.segments.loadData(execution, values).unwrap();
+  vm.runContext = new RunContext(0, names.length, 0);
+
+  const hint: HintData = {
+    code,
+    accessibleScopes: [],
+    apTracking: { group: 0, offset: 0 },
+    references: new Map(
+      names.map((name, index) => [
+        name,
+        parseReference(`[cast(fp + ${index}, felt*)]`, {
+          group: 0,
+          offset: 0,
+        }).unwrap(),
+      ])
+    ),
+    constants: new Map(
+      Object.entries(constants).map(([name, value]) => [name, new Felt(value)])
+    ),
+  };
+  const result = vm.hintProcessor.execute(vm, hint);
+  const cell = (offset: number) =>
+    vm.segments.memory.get(new Relocatable(1, offset)).unwrap();
+  return { vm, result, cell };
+};
+
+describe('math hints', () => {
+  describe('assert_nn', () => {
+    test('should accept a value below 2^128', () => {
+      const { result } = runHint(ASSERT_NN, ['a'], [new Felt(5n)]);
+      expect(result.isOk()).toBeTrue();
+    });
+
+    test('should reject a negative value', () => {
+      const { result } = runHint(ASSERT_NN, ['a'], [new Felt(5n).neg()]);
+      expect(result.unwrapErr()).toEqual(AssertNnError);
+    });
+  });
+
+  describe('assert_not_zero', () => {
+    test('should reject zero', () => {
+      const { result } = runHint(ASSERT_NOT_ZERO, ['value'], [new Felt(0n)]);
+      expect(result.unwrapErr()).toEqual(AssertNotZeroError);
+    });
+  });
+
+  describe('assert_not_equal', () => {
+    test('should reject equal relocatables', () => {
+      const { result } = runHint(
+        ASSERT_NOT_EQUAL,
+        ['a', 'b'],
+        [new Relocatable(0, 1), new Relocatable(0, 1)]
+      );
+      expect(result.unwrapErr()).toEqual(AssertNotEqualError);
+    });
+
+    test('should reject a felt and a relocatable', () => {
+      const { result } = runHint(
+        ASSERT_NOT_EQUAL,
+        ['a', 'b'],
+        [new Felt(1n), new Relocatable(0, 1)]
+      );
+      expect(result.unwrapErr()).toEqual(NonComparableValuesError);
+    });
+  });
+
+  describe('assert_250_bit', () => {
+    test('should split the value', () => {
+      const { cell } = runHint(
+        ASSERT_250_BIT,
+        ['value', 'high', 'low'],
+        [new Felt((3n << 128n) + 7n)],
+        { UPPER_BOUND: 1n << 250n, SHIFT: 1n << 128n }
+      );
+      expect([cell(1), cell(2)]).toEqual([new Felt(3n), new Felt(7n)]);
+    });
+  });
+
+  describe('split_felt', () => {
+    const constants = {
+      MAX_HIGH: (Felt.PRIME - 1n) >> 128n,
+      MAX_LOW: 0n,
+    };
+
+    test('should split the value in its high and low 128 bits', () => {
+      const { cell } = runHint(
+        SPLIT_FELT,
+        ['value', 'low', 'high'],
+        [new Felt(Felt.PRIME - 1n)],
+        constants
+      );
+      expect([cell(1), cell(2)]).toEqual([
+        new Felt(0n),
+        new Felt((Felt.PRIME - 1n) >> 128n),
+      ]);
+    });
+
+    test('should return an error if the constants do not split PRIME - 1', () => {
+      const { result } = runHint(
+        SPLIT_FELT,
+        ['value', 'low', 'high'],
+        [new Felt(1n)],
+        { ...constants, MAX_LOW: 1n }
+      );
+      expect(result.unwrapErr()).toEqual(SplitFeltConstantsError);
+    });
+  });
+
+  describe('assert_le_felt', () => {
+    const constants = {
+      PRIME_OVER_3_HIGH: 0x2aaaaaaaaaaaab05555555555555556n,
+      PRIME_OVER_2_HIGH: 0x4000000000000088000000000000001n,
+    };
+
+    test('should write the two smallest arcs to the range check segment', () => {
+      const { vm, result } = runHint(
+        ASSERT_LE_FELT,
+        ['a', 'b', 'range_check_ptr'],
+        [new Felt(1n), new Felt(3n), new Relocatable(2, 0)],
+        constants
+      );
+      expect(result.isOk()).toBeTrue();
+      expect(vm.scopes.get('excluded').unwrap()).toEqual(2);
+
+      const rangeCheck = [0, 1, 2, 3].map((offset) =>
+        vm.segments.memory.get(new Relocatable(2, offset)).unwrap()
+      );
+      expect(rangeCheck).toEqual([
+        new Felt(1n),
+        new Felt(0n),
+        new Felt(2n),
+        new Felt(0n),
+      ]);
+
+      vm.hintProcessor.execute(vm, {
+        code: ASSERT_LE_FELT_EXCLUDED_0,
+        accessibleScopes: [],
+        apTracking: { group: 0, offset: 0 },
+        references: new Map(),
+        constants: new Map(),
+      });
+      expect(vm.segments.memory.get(vm.runContext.getAp()).unwrap()).toEqual(
+        new Felt(1n)
+      );
+    });
+
+    test('should reject a greater a', () => {
+      const { result } = runHint(
+        ASSERT_LE_FELT,
+        ['a', 'b', 'range_check_ptr'],
+        [new Felt(4n), new Felt(3n), new Relocatable(2, 0)],
+        constants
+      );
+      expect(result.unwrapErr()).toEqual(AssertLeFeltError);
+    });
+  });
+
+  describe('unsigned_div_rem', () => {
+    test('should write the quotient and the remainder', () => {
+      const { cell } = runHint(
+        UNSIGNED_DIV_REM,
+        ['value', 'div', 'q', 'r'],
+        [new Felt(17n), new Felt(5n)]
+      );
+      expect([cell(2), cell(3)]).toEqual([new Felt(3n), new Felt(2n)]);
+    });
+
+    test('should reject a zero div', () => {
+      const { result } = runHint(
+        UNSIGNED_DIV_REM,
+        ['value', 'div', 'q', 'r'],
+        [new Felt(17n), new Felt(0n)]
+      );
+      expect(result.unwrapErr()).toEqual(DivOutOfRangeError);
+    });
+  });
+
+  describe('comparisons', () => {
+    test('should write 0 to [ap] if a is non-negative', () => {
+      const { vm } = runHint(IS_NN, ['a'], [new Felt(3n)]);
+      expect(vm.segments.memory.get(vm.runContext.getAp()).unwrap()).toEqual(
+        new Felt(0n)
+      );
+    });
+
+    test('should write 1 to [ap] if a is greater than b', () => {
+      const { vm } = runHint(
+        IS_LE_FELT,
+        ['a', 'b'],
+        [new Felt(4n), new Felt(3n)]
+      );
+      expect(vm.segments.memory.get(vm.runContext.getAp()).unwrap()).toEqual(
+        new Felt(1n)
+      );
+    });
+  });
+});
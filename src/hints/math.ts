@@ -0,0 +1,396 @@
+// Hints of the math library of cairo-lang, i.e.
+// `starkware/cairo/common/math.cairo` and `math_cmp.cairo`.
+
+import { RangeCheckBuiltinRunner } from 'builtins/rangeCheck';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { UnsignedInteger } from 'primitives/uint';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { HintContext, HintHandler } from './hintProcessor';
+import { IdsManager } from './idsManager';
+
+export const AssertNnError = {
+  message: 'HintError: assert_nn failed, value is out of range',
+};
+
+export const AssertNotZeroError = {
+  message: 'HintError: assert_not_zero failed, value is zero',
+};
+
+export const AssertNotEqualError = {
+  message: 'HintError: assert_not_equal failed, values are equal',
+};
+
+export const NonComparableValuesError = {
+  message: 'HintError: assert_not_equal failed, values are not comparable',
+};
+
+export const Assert250BitError = {
+  message: 'HintError: assert_250_bit failed, value is out of range',
+};
+
+export const SplitFeltConstantsError = {
+  message:
+    'HintError: split_felt failed, MAX_HIGH and MAX_LOW do not split PRIME - 1',
+};
+
+export const AssertLtFeltError = {
+  message: 'HintError: assert_lt_felt failed, a is not less than b',
+};
+
+export const AssertLeFeltError = {
+  message: 'HintError: assert_le_felt failed, a is not less than or equal to b',
+};
+
+export const ArcTooBigError = {
+  message: 'HintError: assert_le_felt failed, arcs are too big',
+};
+
+export const AssertExcludedError = {
+  message: 'HintError: assert_le_felt failed, excluded arc should be 2',
+};
+
+export const DivOutOfRangeError = {
+  message: 'HintError: unsigned_div_rem failed, div is out of range',
+};
+
+export const ASSERT_NN = `from starkware.cairo.common.math_utils import assert_integer
+assert_integer(ids.a)
+assert 0 <= ids.a % PRIME < range_check_builtin.bound, f'a = {ids.a} is out of range.'`;
+
+export const ASSERT_NOT_ZERO = `from starkware.cairo.common.math_utils import assert_integer
+assert_integer(ids.value)
+assert ids.value % PRIME != 0, f'assert_not_zero failed: {ids.value} = 0.'`;
+
+export const ASSERT_NOT_EQUAL = `from starkware.cairo.lang.vm.relocatable import RelocatableValue
+both_ints = isinstance(ids.a, int) and isinstance(ids.b, int)
+both_relocatable = (
+    isinstance(ids.a, RelocatableValue) and isinstance(ids.b, RelocatableValue) and
+    ids.a.segment_index == ids.b.segment_index)
+assert both_ints or both_relocatable, \\
+    f'assert_not_equal failed: non-comparable values: {ids.a}, {ids.b}.'
+assert (ids.a - ids.b) % PRIME != 0, f'assert_not_equal failed: {ids.a} = {ids.b}.'`;
+
+export const ASSERT_250_BIT = `from starkware.cairo.common.math_utils import as_int
+
+# Correctness check.
+value = as_int(ids.value, PRIME) % PRIME
+assert value < ids.UPPER_BOUND, f'{value} is outside of the range [0, 2**250).'
+
+# Calculation for the assertion.
+ids.high, ids.low = divmod(ids.value, ids.SHIFT)`;
+
+export const SPLIT_FELT = `from starkware.cairo.common.math_utils import assert_integer
+assert ids.MAX_HIGH < 2**128 and ids.MAX_LOW < 2**128
+assert PRIME - 1 == ids.MAX_HIGH * 2**128 + ids.MAX_LOW
+assert_integer(ids.value)
+ids.low = ids.value & ((1 << 128) - 1)
+ids.high = ids.value >> 128`;
+
+export const ASSERT_LT_FELT = `from starkware.cairo.common.math_utils import assert_integer
+assert_integer(ids.a)
+assert_integer(ids.b)
+assert (ids.a % PRIME) < (ids.b % PRIME), \\
+    f'a = {ids.a % PRIME} is not less than b = {ids.b % PRIME}.'`;
+
+export const ASSERT_LE_FELT = `import itertools
+
+from starkware.cairo.common.math_utils import assert_integer
+assert_integer(ids.a)
+assert_integer(ids.b)
+a = ids.a % PRIME
+b = ids.b % PRIME
+assert a <= b, f'a = {a} is not less than or equal to b = {b}.'
+
+# Find an arc less than PRIME / 3, and another less than PRIME / 2.
+lengths_and_indices = [(a, 0), (b - a, 1), (PRIME - 1 - b, 2)]
+lengths_and_indices.sort()
+assert lengths_and_indices[0][0] <= PRIME // 3 and lengths_and_indices[1][0] <= PRIME // 2
+excluded = lengths_and_indices[2][1]
+
+memory[ids.range_check_ptr + 1], memory[ids.range_check_ptr + 0] = (
+    divmod(lengths_and_indices[0][0], ids.PRIME_OVER_3_HIGH))
+memory[ids.range_check_ptr + 3], memory[ids.range_check_ptr + 2] = (
+    divmod(lengths_and_indices[1][0], ids.PRIME_OVER_2_HIGH))`;
+
+export const ASSERT_LE_FELT_EXCLUDED_0 =
+  'memory[ap] = 1 if excluded != 0 else 0';
+
+export const ASSERT_LE_FELT_EXCLUDED_1 =
+  'memory[ap] = 1 if excluded != 1 else 0';
+
+export const ASSERT_LE_FELT_EXCLUDED_2 = 'assert excluded == 2';
+
+export const UNSIGNED_DIV_REM = `from starkware.cairo.common.math_utils import assert_integer
+assert_integer(ids.div)
+assert 0 < ids.div <= PRIME // range_check_builtin.bound, \\
+    f'div={hex(ids.div)} is out of the valid range.'
+ids.q, ids.r = divmod(ids.value, ids.div)`;
+
+export const IS_NN =
+  'memory[ap] = 0 if 0 <= (ids.a % PRIME) < range_check_builtin.bound else 1';
+
+export const IS_NN_OUT_OF_RANGE =
+  'memory[ap] = 0 if 0 <= ((-ids.a - 1) % PRIME) < range_check_builtin.bound else 1';
+
+export const IS_LE_FELT =
+  'memory[ap] = 0 if (ids.a % PRIME) <= (ids.b % PRIME) else 1';
+
+const BOUND = RangeCheckBuiltinRunner.BOUND;
+
+// Values of felt variables, as integers.
+function getValues(
+  ids: IdsManager,
+  ...names: string[]
+): Result<bigint[], VMError> {
+  const values: bigint[] = [];
+  for (const name of names) {
+    const value = ids.getFelt(name);
+    if (value.isErr()) {
+      return value;
+    }
+    values.push(value.unwrap().toBigInt());
+  }
+  return new Ok(values);
+}
+
+// Write a bit to [ap], as in `memory[ap] = 1 if ... else 0`.
+function writeBitToAp(
+  { vm }: HintContext,
+  bit: boolean
+): Result<true, VMError> {
+  return vm.segments.memory.insert(
+    vm.runContext.getAp(),
+    vm.field.felt(bit ? 1n : 0n)
+  );
+}
+
+function assertNn({ ids }: HintContext): Result<true, VMError> {
+  const values = getValues(ids, 'a');
+  if (values.isErr()) {
+    return values;
+  }
+  const [a] = values.unwrap();
+  if (a >= BOUND) {
+    return new Err(AssertNnError);
+  }
+  return new Ok(true as const);
+}
+
+function assertNotZero({ ids }: HintContext): Result<true, VMError> {
+  const values = getValues(ids, 'value');
+  if (values.isErr()) {
+    return values;
+  }
+  if (values.unwrap()[0] === 0n) {
+    return new Err(AssertNotZeroError);
+  }
+  return new Ok(true as const);
+}
+
+function assertNotEqual({ ids }: HintContext): Result<true, VMError> {
+  const a = ids.get('a');
+  if (a.isErr()) {
+    return a;
+  }
+  const b = ids.get('b');
+  if (b.isErr()) {
+    return b;
+  }
+
+  const [x, y] = [a.unwrap(), b.unwrap()];
+  if (x instanceof Felt && y instanceof Felt) {
+    return x.eq(y) ? new Err(AssertNotEqualError) : new Ok(true as const);
+  }
+  if (
+    x instanceof Relocatable &&
+    y instanceof Relocatable &&
+    x.getSegmentIndex() === y.getSegmentIndex()
+  ) {
+    return x.getOffset() === y.getOffset()
+      ? new Err(AssertNotEqualError)
+      : new Ok(true as const);
+  }
+  return new Err(NonComparableValuesError);
+}
+
+function assert250Bit({ vm, ids }: HintContext): Result<true, VMError> {
+  const values = getValues(ids, 'value', 'UPPER_BOUND', 'SHIFT');
+  if (values.isErr()) {
+    return values;
+  }
+  const [value, upperBound, shift] = values.unwrap();
+  if (value >= upperBound) {
+    return new Err(Assert250BitError);
+  }
+  const high = ids.set('high', vm.field.felt(value / shift));
+  if (high.isErr()) {
+    return high;
+  }
+  return ids.set('low', vm.field.felt(value % shift));
+}
+
+function splitFelt({ vm, ids }: HintContext): Result<true, VMError> {
+  const values = getValues(ids, 'value', 'MAX_HIGH', 'MAX_LOW');
+  if (values.isErr()) {
+    return values;
+  }
+  const [value, maxHigh, maxLow] = values.unwrap();
+  if (
+    maxHigh >= BOUND ||
+    maxLow >= BOUND ||
+    maxHigh * BOUND + maxLow !== vm.field.prime - 1n
+  ) {
+    return new Err(SplitFeltConstantsError);
+  }
+  const low = ids.set('low', vm.field.felt(value & (BOUND - 1n)));
+  if (low.isErr()) {
+    return low;
+  }
+  return ids.set('high', vm.field.felt(value >> 128n));
+}
+
+function assertLtFelt({ ids }: HintContext): Result<true, VMError> {
+  const values = getValues(ids, 'a', 'b');
+  if (values.isErr()) {
+    return values;
+  }
+  const [a, b] = values.unwrap();
+  if (a >= b) {
+    return new Err(AssertLtFeltError);
+  }
+  return new Ok(true as const);
+}
+
+// Among the three arcs 0 -> a -> b -> PRIME - 1, the two smallest ones
+// are range checked, the other one being excluded.
+function assertLeFelt(context: HintContext): Result<true, VMError> {
+  const { vm, ids, scopes } = context;
+  const values = getValues(
+    ids,
+    'a',
+    'b',
+    'PRIME_OVER_3_HIGH',
+    'PRIME_OVER_2_HIGH'
+  );
+  if (values.isErr()) {
+    return values;
+  }
+  const [a, b, primeOver3High, primeOver2High] = values.unwrap();
+  if (a > b) {
+    return new Err(AssertLeFeltError);
+  }
+
+  const { prime } = vm.field;
+  const arcs: [bigint, number][] = [
+    [a, 0],
+    [b - a, 1],
+    [prime - 1n - b, 2],
+  ];
+  arcs.sort(([x, i], [y, j]) => (x < y ? -1 : x > y ? 1 : i - j));
+  if (arcs[0][0] > prime / 3n || arcs[1][0] > prime / 2n) {
+    return new Err(ArcTooBigError);
+  }
+  scopes.set('excluded', arcs[2][1]);
+
+  const rangeCheckPtr = ids.getRelocatable('range_check_ptr');
+  if (rangeCheckPtr.isErr()) {
+    return rangeCheckPtr;
+  }
+  const cells = [
+    arcs[0][0] % primeOver3High,
+    arcs[0][0] / primeOver3High,
+    arcs[1][0] % primeOver2High,
+    arcs[1][0] / primeOver2High,
+  ];
+  for (let i = 0; i < cells.length; i++) {
+    const address = rangeCheckPtr
+      .unwrap()
+      .add(UnsignedInteger.toUint32(i).unwrap());
+    if (address.isErr()) {
+      return address;
+    }
+    const insert = vm.segments.memory.insert(
+      address.unwrap(),
+      vm.field.felt(cells[i])
+    );
+    if (insert.isErr()) {
+      return insert;
+    }
+  }
+  return new Ok(true as const);
+}
+
+// Write to [ap] whether the excluded arc is not the given one.
+function assertLeFeltExcluded(
+  context: HintContext,
+  arc: number
+): Result<true, VMError> {
+  const excluded = context.scopes.get<number>('excluded');
+  if (excluded.isErr()) {
+    return excluded;
+  }
+  return writeBitToAp(context, excluded.unwrap() !== arc);
+}
+
+function unsignedDivRem({ vm, ids }: HintContext): Result<true, VMError> {
+  const values = getValues(ids, 'value', 'div');
+  if (values.isErr()) {
+    return values;
+  }
+  const [value, div] = values.unwrap();
+  if (div === 0n || div > vm.field.prime / BOUND) {
+    return new Err(DivOutOfRangeError);
+  }
+  const q = ids.set('q', vm.field.felt(value / div));
+  if (q.isErr()) {
+    return q;
+  }
+  return ids.set('r', vm.field.felt(value % div));
+}
+
+// Write to [ap] whether a comparison of the given variables fails.
+const compare =
+  (
+    names: string[],
+    holds: (values: bigint[], prime: bigint) => boolean
+  ): HintHandler =>
+  (context) => {
+    const values = getValues(context.ids, ...names);
+    if (values.isErr()) {
+      return values;
+    }
+    return writeBitToAp(
+      context,
+      !holds(values.unwrap(), context.vm.field.prime)
+    );
+  };
+
+export const MATH_HINTS: Record<string, HintHandler> = {
+  [ASSERT_NN]: assertNn,
+  [ASSERT_NOT_ZERO]: assertNotZero,
+  [ASSERT_NOT_EQUAL]: assertNotEqual,
+  [ASSERT_250_BIT]: assert250Bit,
+  [SPLIT_FELT]: splitFelt,
+  [ASSERT_LT_FELT]: assertLtFelt,
+  [ASSERT_LE_FELT]: assertLeFelt,
+  [ASSERT_LE_FELT_EXCLUDED_0]: (context) => assertLeFeltExcluded(context, 0),
+  [ASSERT_LE_FELT_EXCLUDED_1]: (context) => assertLeFeltExcluded(context, 1),
+  [ASSERT_LE_FELT_EXCLUDED_2]: ({ scopes }) => {
+    const excluded = scopes.get<number>('excluded');
+    if (excluded.isErr()) {
+      return excluded;
+    }
+    if (excluded.unwrap() !== 2) {
+      return new Err(AssertExcludedError);
+    }
+    return new Ok(true as const);
+  },
+  [UNSIGNED_DIV_REM]: unsignedDivRem,
+  [IS_NN]: compare(['a'], ([a]) => a < BOUND),
+  [IS_NN_OUT_OF_RANGE]: compare(
+    ['a'],
+    ([a], prime) => (prime - a - 1n) % prime < BOUND
+  ),
+  [IS_LE_FELT]: compare(['a', 'b'], ([a, b]) => a <= b),
+};
@@ -0,0 +1,61 @@
+import { test, expect, describe } from 'bun:test';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { RunContext } from 'run-context/runContext';
+import { VirtualMachine } from 'vm/virtualMachine';
+import { HintData } from './hintData';
+import { parseReference } from './hintReference';
+import { MEMCPY_CONTINUE_COPYING, MEMCPY_ENTER_SCOPE } from './memcpy';
+import { VM_EXIT_SCOPE } from './scopes';
+import { ExitMainScopeError } from './executionScopes';
+
+describe('memcpy hints', () => {
+  // len is at [fp - 1], continue_copying at [ap].
+  const hint = (code: string, apOffset: number = 0): HintData => ({
+    code,
+    accessibleScopes: [],
+    apTracking: { group: 0, offset: apOffset },
+    references: new Map([
+      [
+        'len',
+        parseReference('[cast(fp + (-1), felt*)]', {
+          group: 0,
+          offset: 0,
+        }).unwrap(),
+      ],
+      [
+        'continue_copying',
+        parseReference('[cast(ap, felt*)]', {
+          group: 0,
+          offset: apOffset,
+        }).unwrap(),
+      ],
+    ]),
+    constants: new Map(),
+  });
+
+  test('should loop len times', () => {
+    const vm = new VirtualMachine();
+    vm.segments.addSegment();
+    const execution = vm.segments.addSegment();
+    vm.segments.loadData(execution, [new Felt(2n)]).unwrap();
+    vm.runContext = new RunContext(0, 1, 1);
+
+    vm.hintProcessor.execute(vm, hint(MEMCPY_ENTER_SCOPE)).unwrap();
+    vm.hintProcessor.execute(vm, hint(MEMCPY_CONTINUE_COPYING)).unwrap();
+    vm.runContext.setAp(new Relocatable(1, 2));
+    vm.hintProcessor.execute(vm, hint(MEMCPY_CONTINUE_COPYING, 1)).unwrap();
+
+    expect(vm.segments.memory.get(new Relocatable(1, 1)).unwrap()).toEqual(
+      new Felt(1n)
+    );
+    expect(vm.segments.memory.get(new Relocatable(1, 2)).unwrap()).toEqual(
+      new Felt(0n)
+    );
+
+    vm.hintProcessor.execute(vm, hint(VM_EXIT_SCOPE)).unwrap();
+    expect(
+      vm.hintProcessor.execute(vm, hint(VM_EXIT_SCOPE)).unwrapErr()
+    ).toEqual(ExitMainScopeError);
+  });
+});
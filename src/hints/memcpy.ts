@@ -0,0 +1,43 @@
+import { Ok } from 'result-pattern/result';
+import { HintContext, HintHandler } from './hintProcessor';
+
+export const MEMCPY_ENTER_SCOPE = "vm_enter_scope({'n': ids.len})";
+
+export const MEMCPY_CONTINUE_COPYING = `n -= 1
+ids.continue_copying = 1 if n > 0 else 0`;
+
+export const MEMSET_ENTER_SCOPE = "vm_enter_scope({'n': ids.n})";
+
+export const MEMSET_CONTINUE_LOOP = `n -= 1
+ids.continue_loop = 1 if n > 0 else 0`;
+
+// Enter a scope whose loop counter `n` is the given variable.
+const enterLoopScope =
+  (name: string): HintHandler =>
+  ({ ids, scopes }: HintContext) => {
+    const n = ids.getFelt(name);
+    if (n.isErr()) {
+      return n;
+    }
+    scopes.enterScope({ n: n.unwrap().toBigInt() });
+    return new Ok(true as const);
+  };
+
+// Decrement the loop counter and tell whether the loop goes on.
+const continueLoop =
+  (name: string): HintHandler =>
+  ({ vm, ids, scopes }: HintContext) => {
+    const n = scopes.getBigInt('n');
+    if (n.isErr()) {
+      return n;
+    }
+    scopes.set('n', n.unwrap() - 1n);
+    return ids.set(name, vm.field.felt(n.unwrap() > 1n ? 1n : 0n));
+  };
+
+export const MEMCPY_HINTS: Record<string, HintHandler> = {
+  [MEMCPY_ENTER_SCOPE]: enterLoopScope('len'),
+  [MEMCPY_CONTINUE_COPYING]: continueLoop('continue_copying'),
+  [MEMSET_ENTER_SCOPE]: enterLoopScope('n'),
+  [MEMSET_CONTINUE_LOOP]: continueLoop('continue_loop'),
+};
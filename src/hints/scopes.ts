@@ -0,0 +1,14 @@
+import { Ok } from 'result-pattern/result';
+import { HintHandler } from './hintProcessor';
+
+export const VM_ENTER_SCOPE = 'vm_enter_scope()';
+
+export const VM_EXIT_SCOPE = 'vm_exit_scope()';
+
+export const SCOPE_HINTS: Record<string, HintHandler> = {
+  [VM_ENTER_SCOPE]: ({ scopes }) => {
+    scopes.enterScope();
+    return new Ok(true as const);
+  },
+  [VM_EXIT_SCOPE]: ({ scopes }) => scopes.exitScope(),
+};
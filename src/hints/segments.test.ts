@@ -0,0 +1,43 @@
+import { test, expect, describe } from 'bun:test';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { RunContext } from 'run-context/runContext';
+import { VirtualMachine } from 'vm/virtualMachine';
+import { HintData } from './hintData';
+import { parseReference } from './hintReference';
+import { RELOCATE_SEGMENT } from './segments';
+
+describe('segments hints', () => {
+  test('should relocate a temporary segment at the end of the run', () => {
+    const vm = new VirtualMachine();
+    vm.segments.addSegment();
+    const execution = vm.segments.addSegment();
+    const dest = vm.segments.addSegment();
+    const src = vm.segments.addTempSegment();
+    vm.segments.loadData(src, [new Felt(3n)]).unwrap();
+    vm.segments.loadData(execution, [src, dest]).unwrap();
+    vm.runContext = new RunContext(0, 2, 0);
+
+    const hint: HintData = {
+      code: RELOCATE_SEGMENT,
+      accessibleScopes: [],
+      apTracking: { group: 0, offset: 0 },
+      references: new Map(
+        ['src_ptr', 'dest_ptr'].map((name, index) => [
+          name,
+          parseReference(`[cast(fp + ${index}, felt**)]`, {
+            group: 0,
+            offset: 0,
+          }).unwrap(),
+        ])
+      ),
+      constants: new Map(),
+    };
+    vm.hintProcessor.execute(vm, hint).unwrap();
+    vm.segments.memory.applyRelocationRules().unwrap();
+
+    const memory = vm.segments.memory;
+    expect(memory.get(new Relocatable(1, 0)).unwrap()).toEqual(dest);
+    expect(memory.get(dest).unwrap()).toEqual(new Felt(3n));
+  });
+});
@@ -0,0 +1,20 @@
+// Hints of `starkware/cairo/common/segments.cairo`.
+
+import { HintHandler } from './hintProcessor';
+
+export const RELOCATE_SEGMENT =
+  'memory.add_relocation_rule(src_ptr=ids.src_ptr, dest_ptr=ids.dest_ptr)';
+
+export const SEGMENTS_HINTS: Record<string, HintHandler> = {
+  [RELOCATE_SEGMENT]: ({ vm, ids }) => {
+    const src = ids.getRelocatable('src_ptr');
+    if (src.isErr()) {
+      return src;
+    }
+    const dest = ids.getRelocatable('dest_ptr');
+    if (dest.isErr()) {
+      return dest;
+    }
+    return vm.segments.memory.addRelocationRule(src.unwrap(), dest.unwrap());
+  },
+};
@@ -0,0 +1,74 @@
+import { test, expect, describe } from 'bun:test';
+import { EcdsaBuiltinRunner } from 'builtins/ecdsa';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { RunContext } from 'run-context/runContext';
+import { VirtualMachine } from 'vm/virtualMachine';
+import { HintData } from './hintData';
+import { parseReference } from './hintReference';
+import { MissingEcdsaBuiltinError, VERIFY_ECDSA_SIGNATURE } from './signature';
+
+// Signature of MESSAGE by PUBLIC_KEY, see the ecdsa builtin tests.
+const PUBLIC_KEY = new Felt(
+  0x77a3b314db07c45076d11f62b6f9e748a39790441823307743cf00d6597ea43n
+);
+const MESSAGE = new Felt(0x1234567890abcdefn);
+const SIGNATURE_R = new Felt(
+  0x36c8dc5617819a0c283a12a46dd79fa5f2826e2dea6cd9fd83be32fbe4e0118n
+);
+const SIGNATURE_S = new Felt(
+  0x59ad18945af28b0c6170206d9749b6127eb0048a6eb81871433f596baeecd00n
+);
+
+describe('signature hints', () => {
+  // ecdsa_ptr, signature_r and signature_s are at [fp - 3], [fp - 2]
+  // and [fp - 1].
+  const hint: HintData = {
+    code: VERIFY_ECDSA_SIGNATURE,
+    accessibleScopes: [],
+    apTracking: { group: 0, offset: 0 },
+    references: new Map(
+      ['ecdsa_ptr', 'signature_r', 'signature_s'].map((name, index) => [
+        name,
+        parseReference(`[cast(fp + (${index - 3}), felt*)]`, {
+          group: 0,
+          offset: 0,
+        }).unwrap(),
+      ])
+    ),
+    constants: new Map(),
+  };
+
+  const setup = (withBuiltin: boolean) => {
+    const vm = new VirtualMachine();
+    vm.segments.addSegment();
+    const execution = vm.segments.addSegment();
+    const ecdsa = new EcdsaBuiltinRunner(vm.segments);
+    ecdsa.addValidationRule(vm.segments.memory);
+    if (withBuiltin) {
+      vm.builtins = [ecdsa];
+    }
+    vm.segments
+      .loadData(execution, [ecdsa.getBase(), SIGNATURE_R, SIGNATURE_S])
+      .unwrap();
+    vm.runContext = new RunContext(0, 3, 3);
+    return { vm, base: ecdsa.getBase() };
+  };
+
+  test('should register the signature of the next ecdsa instance', () => {
+    const { vm, base } = setup(true);
+    vm.hintProcessor.execute(vm, hint).unwrap();
+
+    const memory = vm.segments.memory;
+    memory.insert(base, PUBLIC_KEY).unwrap();
+    const message = new Relocatable(base.getSegmentIndex(), 1);
+    expect(memory.insert(message, MESSAGE).isOk()).toBeTrue();
+  });
+
+  test('should return an error without the ecdsa builtin', () => {
+    const { vm } = setup(false);
+    expect(vm.hintProcessor.execute(vm, hint).unwrapErr()).toEqual(
+      MissingEcdsaBuiltinError
+    );
+  });
+});
@@ -0,0 +1,42 @@
+// Hints of `starkware/cairo/common/signature.cairo`.
+
+import { EcdsaBuiltinRunner } from 'builtins/ecdsa';
+import { Err } from 'result-pattern/result';
+import { HintHandler } from './hintProcessor';
+
+export const MissingEcdsaBuiltinError = {
+  message: 'HintError: the program does not use the ecdsa builtin',
+};
+
+export const VERIFY_ECDSA_SIGNATURE =
+  'ecdsa_builtin.add_signature(ids.ecdsa_ptr.address_, (ids.signature_r, ids.signature_s))';
+
+export const SIGNATURE_HINTS: Record<string, HintHandler> = {
+  // Register the signature of the next instance of the builtin,
+  // checked once its public key and message are written.
+  [VERIFY_ECDSA_SIGNATURE]: ({ vm, ids }) => {
+    const ecdsa = vm.builtins.find(
+      (builtin): builtin is EcdsaBuiltinRunner =>
+        builtin instanceof EcdsaBuiltinRunner
+    );
+    if (ecdsa === undefined) {
+      return new Err(MissingEcdsaBuiltinError);
+    }
+    const address = ids.getRelocatable('ecdsa_ptr');
+    if (address.isErr()) {
+      return address;
+    }
+    const r = ids.getFelt('signature_r');
+    if (r.isErr()) {
+      return r;
+    }
+    const s = ids.getFelt('signature_s');
+    if (s.isErr()) {
+      return s;
+    }
+    return ecdsa.addSignature(address.unwrap(), {
+      r: r.unwrap(),
+      s: s.unwrap(),
+    });
+  },
+};
@@ -0,0 +1,172 @@
+import { test, expect, describe } from 'bun:test';
+import { Felt } from 'primitives/felt';
+import { MaybeRelocatable, Relocatable } from 'primitives/relocatable';
+import { RunContext } from 'run-context/runContext';
+import { VirtualMachine } from 'vm/virtualMachine';
+import { HintData } from './hintData';
+import { parseReference } from './hintReference';
+import {
+  NoKeysLeftError,
+  PtrDiffError,
+  SQUASH_DICT,
+  SQUASH_DICT_INNER_ASSERT_LEN_CURRENT_ACCESS_INDICES,
+  SQUASH_DICT_INNER_ASSERT_LEN_KEYS,
+  SQUASH_DICT_INNER_CHECK_ACCESS_INDEX,
+  SQUASH_DICT_INNER_CONTINUE_LOOP,
+  SQUASH_DICT_INNER_FIRST_ITERATION,
+  SQUASH_DICT_INNER_NEXT_KEY,
+  SQUASH_DICT_INNER_SKIP_LOOP,
+  SQUASH_DICT_INNER_USED_ACCESSES_ASSERT,
+  UsedAccessesError,
+} from './squashDict';
+
+// The accesses of a dict are in the third segment, with the given keys.
+// The fourth segment stands for the range check segment.
+const newVm = (keys: bigint[]) => {
+  const vm = new VirtualMachine();
+  vm.segments.addSegment();
+  vm.segments.addSegment();
+  const accesses = vm.segments.addSegment();
+  vm.segments.addSegment();
+  keys.forEach((key, index) =>
+    vm.segments.memory
+      .insert(new Relocatable(2, 3 * index), new Felt(key))
+      .unwrap()
+  );
+  vm.runContext = new RunContext(0, 0, 0);
+  return { vm, accesses };
+};
+
+// Run a hint whose variables are new cells of the execution segment, from fp,
+// set to the given values when defined.
+const runHint = (
+  vm: VirtualMachine,
+  code: string,
+  variables: Record<string, MaybeRelocatable | undefined> = {}
+) => {
+  const names = Object.keys(variables);
+  const fp = vm.runContext.getAp().getOffset();
+  names.forEach((name, index) => {
+    const value = variables[name];
+    if (value !== undefined) {
+      vm.segments.memory.insert(new Relocatable(1, fp + index), value).unwrap();
+    }
+  });
+  vm.runContext = new RunContext(0, fp + names.length, fp);
+
+  const hint: HintData = {
+    code,
+    accessibleScopes: [],
+    apTracking: { group: 0, offset: 0 },
+    references: new Map(
+      names.map((name, index) => [
+        name,
+        parseReference(`[cast(fp + ${index}, felt*)]`, {
+          group: 0,
+          offset: 0,
+        }).unwrap(),
+      ])
+    ),
+    constants: new Map(),
+  };
+  const result = vm.hintProcessor.execute(vm, hint);
+  const cell = (offset: number) =>
+    vm.segments.memory.get(new Relocatable(1, fp + offset)).unwrap();
+  return { result, cell };
+};
+
+describe('squash_dict hints', () => {
+  test('should visit the keys in ascending order and their accesses by index', () => {
+    const { vm, accesses } = newVm([5n, 2n, 5n]);
+    const memory = vm.segments.memory;
+    const loopTemps = new Relocatable(1, 100);
+
+    const squash = runHint(vm, SQUASH_DICT, {
+      dict_accesses: accesses,
+      ptr_diff: new Felt(9n),
+      n_accesses: new Felt(3n),
+      big_keys: undefined,
+      first_key: undefined,
+    });
+    squash.result.unwrap();
+    expect(squash.cell(3)).toEqual(new Felt(0n));
+    expect(squash.cell(4)).toEqual(new Felt(2n));
+
+    // Key 2: a single access, at index 1.
+    runHint(vm, SQUASH_DICT_INNER_FIRST_ITERATION, {
+      range_check_ptr: new Relocatable(3, 0),
+    }).result.unwrap();
+    expect(memory.get(new Relocatable(3, 0)).unwrap()).toEqual(new Felt(1n));
+    const skip = runHint(vm, SQUASH_DICT_INNER_SKIP_LOOP, {
+      should_skip_loop: undefined,
+    });
+    expect(skip.cell(0)).toEqual(new Felt(1n));
+    runHint(vm, SQUASH_DICT_INNER_USED_ACCESSES_ASSERT, {
+      n_used_accesses: new Felt(1n),
+    }).result.unwrap();
+
+    // Key 5: accesses at indices 0 and 2.
+    const next = runHint(vm, SQUASH_DICT_INNER_NEXT_KEY, {
+      next_key: undefined,
+    });
+    expect(next.cell(0)).toEqual(new Felt(5n));
+    runHint(vm, SQUASH_DICT_INNER_FIRST_ITERATION, {
+      range_check_ptr: new Relocatable(3, 1),
+    }).result.unwrap();
+    expect(memory.get(new Relocatable(3, 1)).unwrap()).toEqual(new Felt(0n));
+    const loop = runHint(vm, SQUASH_DICT_INNER_SKIP_LOOP, {
+      should_skip_loop: undefined,
+    });
+    expect(loop.cell(0)).toEqual(new Felt(0n));
+    runHint(vm, SQUASH_DICT_INNER_CHECK_ACCESS_INDEX, {
+      loop_temps: loopTemps,
+    }).result.unwrap();
+    expect(memory.get(loopTemps).unwrap()).toEqual(new Felt(1n));
+    runHint(vm, SQUASH_DICT_INNER_CONTINUE_LOOP, {
+      loop_temps: loopTemps,
+    }).result.unwrap();
+    expect(memory.get(new Relocatable(1, 103)).unwrap()).toEqual(new Felt(0n));
+    runHint(
+      vm,
+      SQUASH_DICT_INNER_ASSERT_LEN_CURRENT_ACCESS_INDICES
+    ).result.unwrap();
+    expect(
+      runHint(vm, SQUASH_DICT_INNER_USED_ACCESSES_ASSERT, {
+        n_used_accesses: new Felt(1n),
+      }).result.unwrapErr()
+    ).toEqual(UsedAccessesError);
+
+    runHint(vm, SQUASH_DICT_INNER_ASSERT_LEN_KEYS).result.unwrap();
+    expect(
+      runHint(vm, SQUASH_DICT_INNER_NEXT_KEY, {
+        next_key: undefined,
+      }).result.unwrapErr()
+    ).toEqual(NoKeysLeftError);
+  });
+
+  test('should tell whether a key is above the range check bound', () => {
+    const { vm, accesses } = newVm([1n, 1n << 128n]);
+    const squash = runHint(vm, SQUASH_DICT, {
+      dict_accesses: accesses,
+      ptr_diff: new Felt(6n),
+      n_accesses: new Felt(2n),
+      big_keys: undefined,
+      first_key: undefined,
+    });
+    squash.result.unwrap();
+    expect(squash.cell(3)).toEqual(new Felt(1n));
+    expect(squash.cell(4)).toEqual(new Felt(1n));
+  });
+
+  test('should return an error if the accesses are not whole', () => {
+    const { vm, accesses } = newVm([1n]);
+    const { result } = runHint(vm, SQUASH_DICT, {
+      dict_accesses: accesses,
+      ptr_diff: new Felt(4n),
+      n_accesses: new Felt(1n),
+      big_keys: undefined,
+      first_key: undefined,
+    });
+    expect(result.unwrapErr()).toEqual(PtrDiffError);
+  });
+});
@@ -0,0 +1,341 @@
+// Hints of `squash_dict` of cairo-lang, i.e.
+// `starkware/cairo/common/squash_dict.cairo`.
+// The accesses of each key are sorted by index, the keys being visited
+// in ascending order, using the variables of the scope of `squash_dict`.
+
+import { RangeCheckBuiltinRunner } from 'builtins/rangeCheck';
+import { Felt } from 'primitives/felt';
+import { Relocatable } from 'primitives/relocatable';
+import { UnsignedInteger } from 'primitives/uint';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { DICT_ACCESS_SIZE } from './dict';
+import { HintContext, HintHandler } from './hintProcessor';
+
+export const PtrDiffError = {
+  message:
+    'HintError: squash_dict failed, accesses array size must be divisible by DictAccess.SIZE',
+};
+
+export const EmptyAccessesError = {
+  message: 'HintError: squash_dict failed, no access to squash',
+};
+
+export const DictKeyNotFeltError = {
+  message: 'HintError: squash_dict failed, dict keys should be felts',
+};
+
+export const RemainingAccessIndicesError = {
+  message: 'HintError: squash_dict failed, accesses of the key are left',
+};
+
+export const UsedAccessesError = {
+  message:
+    'HintError: squash_dict failed, n_used_accesses is not the number of accesses of the key',
+};
+
+export const RemainingKeysError = {
+  message: 'HintError: squash_dict failed, keys are left',
+};
+
+export const NoKeysLeftError = {
+  message: 'HintError: squash_dict failed, no keys left but remaining accesses',
+};
+
+export const SQUASH_DICT = `dict_access_size = ids.DictAccess.SIZE
+address = ids.dict_accesses.address_
+assert ids.ptr_diff % dict_access_size == 0, \\
+    'Accesses array size must be divisible by DictAccess.SIZE'
+n_accesses = ids.n_accesses
+if '__squash_dict_max_size' in globals():
+    assert n_accesses <= __squash_dict_max_size, \\
+        f'squash_dict() can only be used with n_accesses<={__squash_dict_max_size}. ' \\
+        f'Got: n_accesses={n_accesses}.'
+# A map from key to the list of indices accessing it.
+access_indices = {}
+for i in range(n_accesses):
+    key = memory[address + dict_access_size * i]
+    access_indices.setdefault(key, []).append(i)
+# Descending list of keys.
+keys = sorted(access_indices.keys(), reverse=True)
+# Are the keys used bigger than range_check bound.
+ids.big_keys = 1 if keys[0] >= range_check_builtin.bound else 0
+ids.first_key = key = keys.pop()`;
+
+export const SQUASH_DICT_INNER_FIRST_ITERATION = `current_access_indices = sorted(access_indices[key])[::-1]
+current_access_index = current_access_indices.pop()
+memory[ids.range_check_ptr] = current_access_index`;
+
+export const SQUASH_DICT_INNER_SKIP_LOOP =
+  'ids.should_skip_loop = 0 if current_access_indices else 1';
+
+export const SQUASH_DICT_INNER_CHECK_ACCESS_INDEX = `new_access_index = current_access_indices.pop()
+ids.loop_temps.index_delta_minus1 = new_access_index - current_access_index - 1
+current_access_index = new_access_index`;
+
+export const SQUASH_DICT_INNER_CONTINUE_LOOP =
+  'ids.loop_temps.should_continue = 1 if current_access_indices else 0';
+
+export const SQUASH_DICT_INNER_ASSERT_LEN_CURRENT_ACCESS_INDICES =
+  'assert len(current_access_indices) == 0';
+
+export const SQUASH_DICT_INNER_USED_ACCESSES_ASSERT =
+  'assert ids.n_used_accesses == len(access_indices[key])';
+
+export const SQUASH_DICT_INNER_ASSERT_LEN_KEYS = 'assert len(keys) == 0';
+
+export const SQUASH_DICT_INNER_NEXT_KEY = `assert len(keys) > 0, 'No keys left but remaining_accesses > 0.'
+ids.next_key = key = keys.pop()`;
+
+// Members of the `LoopTemps` struct of `squash_dict_inner`.
+const INDEX_DELTA_MINUS1_OFFSET = 0;
+const SHOULD_CONTINUE_OFFSET = 3;
+
+// Indices of the accesses of each key, by key.
+type AccessIndices = Map<string, number[]>;
+
+function squashDict({ vm, ids, scopes }: HintContext): Result<true, VMError> {
+  const address = ids.getRelocatable('dict_accesses');
+  if (address.isErr()) {
+    return address;
+  }
+  const ptrDiff = ids.getFelt('ptr_diff');
+  if (ptrDiff.isErr()) {
+    return ptrDiff;
+  }
+  if (ptrDiff.unwrap().toBigInt() % BigInt(DICT_ACCESS_SIZE) !== 0n) {
+    return new Err(PtrDiffError);
+  }
+  const nAccesses = ids.getFelt('n_accesses');
+  if (nAccesses.isErr()) {
+    return nAccesses;
+  }
+  const n = nAccesses.unwrap().toUint32();
+  if (n.isErr()) {
+    return n;
+  }
+
+  const accessIndices: AccessIndices = new Map();
+  const keys: Felt[] = [];
+  for (let i = 0; i < n.unwrap(); i++) {
+    const keyAddress = address
+      .unwrap()
+      .add(UnsignedInteger.toUint32(DICT_ACCESS_SIZE * i).unwrap());
+    if (keyAddress.isErr()) {
+      return keyAddress;
+    }
+    const key = vm.segments.memory.get(keyAddress.unwrap());
+    if (key.isNone() || !(key.unwrap() instanceof Felt)) {
+      return new Err(DictKeyNotFeltError);
+    }
+    const name = key.unwrap().toString();
+    if (!accessIndices.has(name)) {
+      accessIndices.set(name, []);
+      keys.push(key.unwrap() as Felt);
+    }
+    accessIndices.get(name)!.push(i);
+  }
+  if (keys.length === 0) {
+    return new Err(EmptyAccessesError);
+  }
+
+  // Descending, so that the next key is popped.
+  keys.sort((a, b) => (a.lt(b) ? 1 : a.gt(b) ? -1 : 0));
+  const bigKeys = ids.set(
+    'big_keys',
+    vm.field.felt(keys[0].toBigInt() >= RangeCheckBuiltinRunner.BOUND ? 1n : 0n)
+  );
+  if (bigKeys.isErr()) {
+    return bigKeys;
+  }
+  const key = keys.pop()!;
+  scopes.set('access_indices', accessIndices);
+  scopes.set('keys', keys);
+  scopes.set('key', key);
+  return ids.set('first_key', key);
+}
+
+function squashDictInnerFirstIteration({
+  vm,
+  ids,
+  scopes,
+}: HintContext): Result<true, VMError> {
+  const accessIndices = scopes.get<AccessIndices>('access_indices');
+  if (accessIndices.isErr()) {
+    return accessIndices;
+  }
+  const key = scopes.get<Felt>('key');
+  if (key.isErr()) {
+    return key;
+  }
+  // Descending, so that the next index is popped.
+  const currentAccessIndices = [
+    ...(accessIndices.unwrap().get(key.unwrap().toString()) ?? []),
+  ].sort((a, b) => b - a);
+  const currentAccessIndex = currentAccessIndices.pop();
+  if (currentAccessIndex === undefined) {
+    return new Err(EmptyAccessesError);
+  }
+  scopes.set('current_access_indices', currentAccessIndices);
+  scopes.set('current_access_index', currentAccessIndex);
+
+  const rangeCheckPtr = ids.getRelocatable('range_check_ptr');
+  if (rangeCheckPtr.isErr()) {
+    return rangeCheckPtr;
+  }
+  return vm.segments.memory.insert(
+    rangeCheckPtr.unwrap(),
+    vm.field.felt(BigInt(currentAccessIndex))
+  );
+}
+
+function squashDictInnerSkipLoop({
+  vm,
+  ids,
+  scopes,
+}: HintContext): Result<true, VMError> {
+  const currentAccessIndices = scopes.get<number[]>('current_access_indices');
+  if (currentAccessIndices.isErr()) {
+    return currentAccessIndices;
+  }
+  return ids.set(
+    'should_skip_loop',
+    vm.field.felt(currentAccessIndices.unwrap().length ? 0n : 1n)
+  );
+}
+
+// Write a member of `ids.loop_temps`.
+function setLoopTemp(
+  { vm, ids }: HintContext,
+  offset: number,
+  value: Felt
+): Result<true, VMError> {
+  const loopTemps = ids.getRelocatable('loop_temps');
+  if (loopTemps.isErr()) {
+    return loopTemps;
+  }
+  const address: Result<Relocatable, VMError> = loopTemps
+    .unwrap()
+    .add(UnsignedInteger.toUint32(offset).unwrap());
+  if (address.isErr()) {
+    return address;
+  }
+  return vm.segments.memory.insert(address.unwrap(), value);
+}
+
+function squashDictInnerCheckAccessIndex(
+  context: HintContext
+): Result<true, VMError> {
+  const { vm, scopes } = context;
+  const currentAccessIndices = scopes.get<number[]>('current_access_indices');
+  if (currentAccessIndices.isErr()) {
+    return currentAccessIndices;
+  }
+  const currentAccessIndex = scopes.get<number>('current_access_index');
+  if (currentAccessIndex.isErr()) {
+    return currentAccessIndex;
+  }
+  const newAccessIndex = currentAccessIndices.unwrap().pop();
+  if (newAccessIndex === undefined) {
+    return new Err(EmptyAccessesError);
+  }
+  scopes.set('current_access_index', newAccessIndex);
+  return setLoopTemp(
+    context,
+    INDEX_DELTA_MINUS1_OFFSET,
+    vm.field.felt(BigInt(newAccessIndex - currentAccessIndex.unwrap() - 1))
+  );
+}
+
+function squashDictInnerContinueLoop(
+  context: HintContext
+): Result<true, VMError> {
+  const currentAccessIndices = context.scopes.get<number[]>(
+    'current_access_indices'
+  );
+  if (currentAccessIndices.isErr()) {
+    return currentAccessIndices;
+  }
+  return setLoopTemp(
+    context,
+    SHOULD_CONTINUE_OFFSET,
+    context.vm.field.felt(currentAccessIndices.unwrap().length ? 1n : 0n)
+  );
+}
+
+function squashDictInnerAssertLenCurrentAccessIndices({
+  scopes,
+}: HintContext): Result<true, VMError> {
+  const currentAccessIndices = scopes.get<number[]>('current_access_indices');
+  if (currentAccessIndices.isErr()) {
+    return currentAccessIndices;
+  }
+  if (currentAccessIndices.unwrap().length !== 0) {
+    return new Err(RemainingAccessIndicesError);
+  }
+  return new Ok(true as const);
+}
+
+function squashDictInnerUsedAccessesAssert({
+  ids,
+  scopes,
+}: HintContext): Result<true, VMError> {
+  const accessIndices = scopes.get<AccessIndices>('access_indices');
+  if (accessIndices.isErr()) {
+    return accessIndices;
+  }
+  const key = scopes.get<Felt>('key');
+  if (key.isErr()) {
+    return key;
+  }
+  const nUsedAccesses = ids.getFelt('n_used_accesses');
+  if (nUsedAccesses.isErr()) {
+    return nUsedAccesses;
+  }
+  const indices = accessIndices.unwrap().get(key.unwrap().toString()) ?? [];
+  if (nUsedAccesses.unwrap().toBigInt() !== BigInt(indices.length)) {
+    return new Err(UsedAccessesError);
+  }
+  return new Ok(true as const);
+}
+
+function squashDictInnerAssertLenKeys({
+  scopes,
+}: HintContext): Result<true, VMError> {
+  const keys = scopes.get<Felt[]>('keys');
+  if (keys.isErr()) {
+    return keys;
+  }
+  if (keys.unwrap().length !== 0) {
+    return new Err(RemainingKeysError);
+  }
+  return new Ok(true as const);
+}
+
+function squashDictInnerNextKey({
+  ids,
+  scopes,
+}: HintContext): Result<true, VMError> {
+  const keys = scopes.get<Felt[]>('keys');
+  if (keys.isErr()) {
+    return keys;
+  }
+  const key = keys.unwrap().pop();
+  if (key === undefined) {
+    return new Err(NoKeysLeftError);
+  }
+  scopes.set('key', key);
+  return ids.set('next_key', key);
+}
+
+export const SQUASH_DICT_HINTS: Record<string, HintHandler> = {
+  [SQUASH_DICT]: squashDict,
+  [SQUASH_DICT_INNER_FIRST_ITERATION]: squashDictInnerFirstIteration,
+  [SQUASH_DICT_INNER_SKIP_LOOP]: squashDictInnerSkipLoop,
+  [SQUASH_DICT_INNER_CHECK_ACCESS_INDEX]: squashDictInnerCheckAccessIndex,
+  [SQUASH_DICT_INNER_CONTINUE_LOOP]: squashDictInnerContinueLoop,
+  [SQUASH_DICT_INNER_ASSERT_LEN_CURRENT_ACCESS_INDICES]:
+    squashDictInnerAssertLenCurrentAccessIndices,
+  [SQUASH_DICT_INNER_USED_ACCESSES_ASSERT]: squashDictInnerUsedAccessesAssert,
+  [SQUASH_DICT_INNER_ASSERT_LEN_KEYS]: squashDictInnerAssertLenKeys,
+  [SQUASH_DICT_INNER_NEXT_KEY]: squashDictInnerNextKey,
+};
@@ -0,0 +1,27 @@
+// Public API of the VM.
+
+export { CairoRunner } from 'runner/cairoRunner';
+export type {
+  ExecutionResources,
+  OutOfResourcesError,
+  RunnerOptions,
+} from 'runner/cairoRunner';
+export { LAYOUTS, getLayout } from 'runner/layout';
+export type { Layout } from 'runner/layout';
+export type { AirPrivateInput, AirPublicInput } from 'runner/airInput';
+export { Program } from 'program/program';
+export { VirtualMachine } from 'vm/virtualMachine';
+export { Felt, Field } from 'primitives/felt';
+export { Relocatable } from 'primitives/relocatable';
+export type { MaybeRelocatable } from 'primitives/relocatable';
+export type { HintData } from 'hints/hintData';
+export {
+  HintContext,
+  HintProcessor,
+  UnknownHintError,
+} from 'hints/hintProcessor';
+export type { HintHandler } from 'hints/hintProcessor';
+export { IdsManager } from 'hints/idsManager';
+export { ExecutionScopes } from 'hints/executionScopes';
+export { DictManager, DictTracker } from 'hints/dictManager';
+export type { DictData } from 'hints/dictManager';
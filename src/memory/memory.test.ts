@@ -1,8 +1,32 @@
 import { test, expect, describe } from 'bun:test';
-import { Memory, WriteOnceError } from './memory';
+import {
+  DuplicateRelocationRuleError,
+  Memory,
+  RelocationOffsetError,
+  TemporarySegmentRelocationError,
+  WriteOnceError,
+} from './memory';
 import { Relocatable, SegmentError } from 'primitives/relocatable';
 import { Felt } from 'primitives/felt';
-import { None } from 'option-pattern/option';
+import { None, Some } from 'option-pattern/option';
+import { Err, Ok } from 'result-pattern/result';
+
+const InvalidValueError = { message: 'TestError: value must not be zero' };
+
+const NotSmallError = { message: 'TestError: value must be below 2^64' };
+
+const nonZeroRule = (memory: Memory, address: Relocatable) =>
+  memory.get(address).unwrap().toString() === '0'
+    ? new Err(InvalidValueError)
+    : new Ok(true as const);
+
+// Only felts below 2^64 are valid.
+const smallRule = (memory: Memory, address: Relocatable) => {
+  const value = memory.get(address).unwrap();
+  return value instanceof Felt && value.toBigInt() < 1n << 64n
+    ? new Ok(true as const)
+    : new Err(NotSmallError);
+};
 
 describe('Memory', () => {
   describe('get', () => {
@@ -22,6 +46,23 @@ describe('Memory', () => {
       let result = memory.get(address).unwrap();
       expect(result).toEqual(value);
     });
+
+    test('should return the value at an address equal to the written one', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      const value = new Felt(10n);
+      memory.insert(new Relocatable(0, 3), value);
+      const result = memory.get(new Relocatable(0, 3)).unwrap();
+      expect(result).toEqual(value);
+    });
+
+    test('should return None for a hole in a segment', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.insert(new Relocatable(0, 3), new Felt(10n));
+      const result = memory.get(new Relocatable(0, 1));
+      expect(result).toEqual(new None());
+    });
   });
 
   describe('insert', () => {
@@ -42,5 +83,301 @@ describe('Memory', () => {
       const err = memory.insert(address, value).unwrapErr();
       expect(err).toEqual(WriteOnceError);
     });
+
+    test('should return error if an equal address is already written to', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.insert(new Relocatable(0, 0), new Felt(10n));
+      const err = memory
+        .insert(new Relocatable(0, 0), new Felt(11n))
+        .unwrapErr();
+      expect(err).toEqual(WriteOnceError);
+    });
+  });
+
+  describe('entries', () => {
+    test('should iterate over the written cells by segment and offset', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.incrementNumSegments();
+      memory.insert(new Relocatable(1, 0), new Felt(3n));
+      memory.insert(new Relocatable(0, 2), new Felt(2n));
+      memory.insert(new Relocatable(0, 0), new Relocatable(1, 0));
+      expect([...memory.entries()]).toEqual([
+        [new Relocatable(0, 0), new Relocatable(1, 0)],
+        [new Relocatable(0, 2), new Felt(2n)],
+        [new Relocatable(1, 0), new Felt(3n)],
+      ]);
+    });
+  });
+
+  describe('addValidationRule', () => {
+    test('should validate the values written to the segment', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.addValidationRule(0, nonZeroRule);
+      const address = new Relocatable(0, 0);
+
+      expect(memory.insert(address, new Felt(1n)).isOk()).toBeTrue();
+      expect(memory.get(address).unwrap()).toEqual(new Felt(1n));
+    });
+
+    test('should not write an invalid value', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.addValidationRule(0, nonZeroRule);
+      const address = new Relocatable(0, 0);
+
+      expect(memory.insert(address, new Felt(0n)).unwrapErr()).toEqual(
+        InvalidValueError
+      );
+      expect(memory.get(address)).toEqual(new None());
+    });
+
+    test('should not extend the segment with an invalid value', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.addValidationRule(0, nonZeroRule);
+      memory.insert(new Relocatable(0, 0), new Felt(1n)).unwrap();
+
+      expect(
+        memory.insert(new Relocatable(0, 5), new Felt(0n)).unwrapErr()
+      ).toEqual(InvalidValueError);
+      expect(memory.data[0].length).toEqual(1);
+    });
+
+    test('should check all the rules of the segment', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.addValidationRule(0, nonZeroRule);
+      memory.addValidationRule(0, smallRule);
+
+      expect(
+        memory.insert(new Relocatable(0, 0), new Felt(1n << 64n)).unwrapErr()
+      ).toEqual(NotSmallError);
+      expect(
+        memory.insert(new Relocatable(0, 0), new Relocatable(0, 0)).unwrapErr()
+      ).toEqual(NotSmallError);
+      expect(memory.insert(new Relocatable(0, 0), new Felt(2n)).isOk()).toBe(
+        true
+      );
+    });
+  });
+
+  describe('validateExistingMemory', () => {
+    test('should validate the cells written before the rules', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.incrementNumSegments();
+      memory.insert(new Relocatable(0, 0), new Felt(1n << 64n));
+      memory.insert(new Relocatable(1, 0), new Felt(1n << 64n));
+      memory.addValidationRule(1, smallRule);
+
+      expect(memory.validateExistingMemory().unwrapErr()).toEqual(
+        NotSmallError
+      );
+    });
+
+    test('should compose the errors of all the invalid cells', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.insert(new Relocatable(0, 0), new Felt(0n));
+      memory.insert(new Relocatable(0, 1), new Felt(1n));
+      memory.insert(new Relocatable(0, 2), new Felt(1n << 64n));
+      memory.addValidationRule(0, nonZeroRule);
+      memory.addValidationRule(0, smallRule);
+
+      expect(memory.validateExistingMemory().unwrapErr()).toEqual(
+        Err.composeErrors([InvalidValueError, NotSmallError])
+      );
+    });
+
+    test('should accept valid memory', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.insert(new Relocatable(0, 0), new Felt(1n));
+      memory.addValidationRule(0, smallRule);
+
+      expect(memory.validateExistingMemory().isOk()).toBeTrue();
+    });
+  });
+
+  describe('addDeductionRule', () => {
+    const rule = (memory: Memory, address: Relocatable) =>
+      address.getOffset() === 1 ? new Some(new Felt(7n)) : new None();
+
+    test('should deduce and write a missing cell', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.addDeductionRule(0, rule);
+      const address = new Relocatable(0, 1);
+
+      expect(memory.get(address).unwrap()).toEqual(new Felt(7n));
+      expect(memory.data[0][1]).toEqual(new Felt(7n));
+    });
+
+    test('should return None if the cell cannot be deduced', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.addDeductionRule(0, rule);
+
+      expect(memory.get(new Relocatable(0, 0))).toEqual(new None());
+    });
+
+    test('should not override a written cell', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.addDeductionRule(0, rule);
+      const address = new Relocatable(0, 1);
+      memory.insert(address, new Felt(3n));
+
+      expect(memory.get(address).unwrap()).toEqual(new Felt(3n));
+    });
+
+    test('should try the rules of the segment in order', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.addDeductionRule(0, rule);
+      memory.addDeductionRule(0, () => new Some(new Felt(8n)));
+
+      expect(memory.get(new Relocatable(0, 1)).unwrap()).toEqual(new Felt(7n));
+      expect(memory.get(new Relocatable(0, 2)).unwrap()).toEqual(new Felt(8n));
+    });
+
+    test('should return the error of a deduced cell rejected by a validation rule', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.addDeductionRule(0, () => new Some(new Felt(1n << 64n)));
+      memory.addValidationRule(0, smallRule);
+      const address = new Relocatable(0, 1);
+
+      expect(memory.getOrDeduce(address)).toEqual(new Err(NotSmallError));
+      expect(memory.get(address)).toEqual(new None());
+      expect(memory.data[0][1]).toBeUndefined();
+    });
+  });
+
+  describe('temporary segments', () => {
+    test('should write and read the cells of a temporary segment', () => {
+      const memory = new Memory();
+      memory.incrementNumTempSegments();
+      const address = new Relocatable(-1, 2);
+      memory.insert(address, new Felt(5n)).unwrap();
+
+      expect(memory.get(address).unwrap()).toEqual(new Felt(5n));
+      expect(memory.insert(new Relocatable(-2, 0), new Felt(1n))).toEqual(
+        new Err(SegmentError)
+      );
+    });
+
+    test('should iterate over the temporary cells last', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.incrementNumTempSegments();
+      memory.insert(new Relocatable(-1, 0), new Felt(1n));
+      memory.insert(new Relocatable(0, 0), new Felt(2n));
+
+      expect([...memory.entries()]).toEqual([
+        [new Relocatable(0, 0), new Felt(2n)],
+        [new Relocatable(-1, 0), new Felt(1n)],
+      ]);
+    });
+  });
+
+  describe('addRelocationRule', () => {
+    test('should only relocate temporary segments from their start', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.incrementNumTempSegments();
+      const dest = new Relocatable(0, 0);
+
+      expect(memory.addRelocationRule(new Relocatable(0, 0), dest)).toEqual(
+        new Err(TemporarySegmentRelocationError)
+      );
+      expect(memory.addRelocationRule(new Relocatable(-1, 1), dest)).toEqual(
+        new Err(RelocationOffsetError)
+      );
+      expect(memory.addRelocationRule(new Relocatable(-2, 0), dest)).toEqual(
+        new Err(SegmentError)
+      );
+      memory.addRelocationRule(new Relocatable(-1, 0), dest).unwrap();
+      expect(memory.addRelocationRule(new Relocatable(-1, 0), dest)).toEqual(
+        new Err(DuplicateRelocationRuleError)
+      );
+    });
+  });
+
+  describe('applyRelocationRules', () => {
+    test('should move the temporary cells and the values pointing to them', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.incrementNumSegments();
+      memory.incrementNumTempSegments();
+      memory.insert(new Relocatable(-1, 0), new Felt(7n));
+      memory.insert(new Relocatable(-1, 1), new Relocatable(-1, 0));
+      memory.insert(new Relocatable(0, 0), new Relocatable(-1, 1));
+      memory.addRelocationRule(new Relocatable(-1, 0), new Relocatable(1, 2));
+      memory.applyRelocationRules().unwrap();
+
+      expect([...memory.entries()]).toEqual([
+        [new Relocatable(0, 0), new Relocatable(1, 3)],
+        [new Relocatable(1, 2), new Felt(7n)],
+        [new Relocatable(1, 3), new Relocatable(1, 2)],
+      ]);
+    });
+
+    test('should follow the rules to another temporary segment', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.incrementNumTempSegments();
+      memory.incrementNumTempSegments();
+      memory.insert(new Relocatable(-1, 0), new Felt(7n));
+      memory.addRelocationRule(new Relocatable(-1, 0), new Relocatable(-2, 1));
+      memory.addRelocationRule(new Relocatable(-2, 0), new Relocatable(0, 1));
+      memory.applyRelocationRules().unwrap();
+
+      expect(memory.get(new Relocatable(0, 2)).unwrap()).toEqual(new Felt(7n));
+    });
+
+    test('should return an error if a destination cell has another value', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.incrementNumTempSegments();
+      memory.insert(new Relocatable(0, 0), new Felt(1n));
+      memory.insert(new Relocatable(-1, 0), new Felt(1n));
+      memory.insert(new Relocatable(-1, 1), new Felt(2n));
+      memory.insert(new Relocatable(0, 1), new Felt(3n));
+      memory.addRelocationRule(new Relocatable(-1, 0), new Relocatable(0, 0));
+
+      expect(memory.applyRelocationRules()).toEqual(new Err(WriteOnceError));
+    });
+
+    test('should move the accessed temporary cells', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.incrementNumTempSegments();
+      memory.insert(new Relocatable(-1, 1), new Felt(7n));
+      memory.markAsAccessed(new Relocatable(-1, 1));
+      memory.addRelocationRule(new Relocatable(-1, 0), new Relocatable(0, 2));
+      memory.applyRelocationRules().unwrap();
+
+      expect(memory.isAccessed(new Relocatable(0, 3))).toBeTrue();
+      expect(memory.isAccessed(new Relocatable(-1, 1))).toBeFalse();
+    });
+  });
+
+  describe('markAsAccessed', () => {
+    test('should count the accessed cells of a segment once', () => {
+      const memory = new Memory();
+      memory.incrementNumSegments();
+      memory.markAsAccessed(new Relocatable(0, 1));
+      memory.markAsAccessed(new Relocatable(0, 1));
+      memory.markAsAccessed(new Relocatable(0, 4));
+
+      expect(memory.isAccessed(new Relocatable(0, 1))).toBeTrue();
+      expect(memory.isAccessed(new Relocatable(0, 2))).toBeFalse();
+      expect(memory.getNumAccessed(0)).toEqual(2);
+      expect(memory.getNumAccessed(1)).toEqual(0);
+    });
   });
 });
@@ -1,4 +1,5 @@
 import { Ok, Err, VMError, Result } from 'result-pattern/result';
+import { Felt } from 'primitives/felt';
 import {
   MaybeRelocatable,
   Relocatable,
@@ -19,34 +20,271 @@ export const WriteOnceError = {
     'MemoryError: tried to write existing memory. Can only write to memory once.',
 };
 
+export const TemporarySegmentRelocationError = {
+  message: 'MemoryError: only temporary segments can be relocated',
+};
+
+export const RelocationOffsetError = {
+  message: 'MemoryError: relocated temporary segments must start at offset 0',
+};
+
+export const DuplicateRelocationRuleError = {
+  message: 'MemoryError: temporary segment already has a relocation rule',
+};
+
+// A validation rule checks a cell of a segment each time it is written,
+// e.g. that a range-checked value fits in 128 bits.
+// A segment may have several rules, all of them being checked.
+export type ValidationRule = (
+  memory: Memory,
+  address: Relocatable
+) => Result<true, VMError>;
+
+// A deduction rule computes a missing cell of a segment when it is read,
+// e.g. the output of a hash from its inputs.
+// The rules of a segment are tried in order, until one deduces the cell.
+export type DeductionRule = (
+  memory: Memory,
+  address: Relocatable
+) => Option<MaybeRelocatable>;
+
+/**
+ * The memory is made of segments, each one being a dense array of cells
+ * indexed by offset. Cells are addressed by value: two equal relocatables
+ * point to the same cell, whatever their identity.
+ *
+ * Temporary segments, of negative index -1, -2, ..., are moved to
+ * a real segment by their relocation rule at the end of the run.
+ */
 export class Memory {
-  data: Map<Relocatable, MaybeRelocatable>;
+  data: MaybeRelocatable[][];
+  tempData: MaybeRelocatable[][];
   private numSegments: Uint32;
+  private numTempSegments: Uint32;
+  private validationRules: Map<number, ValidationRule[]>;
+  private deductionRules: Map<number, DeductionRule[]>;
+  // Destination of each temporary segment, by segment index.
+  private relocationRules: Map<number, Relocatable>;
+  // Offsets of the cells accessed by the VM steps, by segment index.
+  private accessedOffsets: Map<number, Set<number>>;
 
   constructor() {
-    this.data = new Map();
+    this.data = [];
+    this.tempData = [];
     this.numSegments = UnsignedInteger.ZERO_UINT32;
+    this.numTempSegments = UnsignedInteger.ZERO_UINT32;
+    this.validationRules = new Map();
+    this.deductionRules = new Map();
+    this.relocationRules = new Map();
+    this.accessedOffsets = new Map();
   }
 
   insert(address: Relocatable, value: MaybeRelocatable): Result<true, VMError> {
-    if (address.getSegmentIndex() >= this.numSegments) {
+    const segment = this.getSegment(address.getSegmentIndex());
+    if (segment === undefined) {
       return new Err(SegmentError);
     }
 
-    if (this.data.get(address) !== undefined) {
+    if (segment[address.getOffset()] !== undefined) {
       return new Err(WriteOnceError);
     }
 
-    this.data.set(address, value);
+    const prevLength = segment.length;
+    segment[address.getOffset()] = value;
+
+    const validation = this.validate(address);
+    if (validation.isErr()) {
+      // An invalid value must not remain in memory, nor extend the segment.
+      delete segment[address.getOffset()];
+      segment.length = prevLength;
+      return validation;
+    }
+
+    return new Ok(true as const);
+  }
+
+  addValidationRule(segmentIndex: number, rule: ValidationRule) {
+    const rules = this.validationRules.get(segmentIndex) ?? [];
+    this.validationRules.set(segmentIndex, [...rules, rule]);
+  }
+
+  addDeductionRule(segmentIndex: number, rule: DeductionRule) {
+    const rules = this.deductionRules.get(segmentIndex) ?? [];
+    this.deductionRules.set(segmentIndex, [...rules, rule]);
+  }
+
+  // Check the cells written before the validation rules of their segment
+  // were added, e.g. at the end of a run. All the invalid cells are reported.
+  validateExistingMemory(): Result<true, VMError> {
+    const errors: VMError[] = [];
+    for (const [address] of this.entries()) {
+      const validation = this.validate(address);
+      if (validation.isErr()) {
+        errors.push(validation.unwrapErr());
+      }
+    }
+    if (errors.length > 0) {
+      return new Err(compose(errors));
+    }
     return new Ok(true as const);
   }
 
+  // On a miss, the deduction rules of the segment, if any, are applied
+  // and the deduced value is written to memory. A deduced value rejected
+  // by a validation rule is None: see `getOrDeduce` for the error.
   get(address: Relocatable): Option<MaybeRelocatable> {
-    const value = this.data.get(address);
-    if (value === undefined) {
+    const value = this.getOrDeduce(address);
+    if (value.isErr()) {
       return new None();
     }
-    return new Some(value);
+    return value.unwrap();
+  }
+
+  // As `get`, with the error of writing the deduced value, if any.
+  getOrDeduce(address: Relocatable): Result<Option<MaybeRelocatable>, VMError> {
+    const value = this.getSegment(address.getSegmentIndex())?.[
+      address.getOffset()
+    ];
+    if (value !== undefined) {
+      return new Ok(new Some(value));
+    }
+
+    const rules = this.deductionRules.get(address.getSegmentIndex()) ?? [];
+    for (const rule of rules) {
+      const deduced = rule(this, address);
+      if (deduced.isSome()) {
+        const insert = this.insert(address, deduced.unwrap());
+        if (insert.isErr()) {
+          return insert;
+        }
+        return new Ok(deduced);
+      }
+    }
+    return new Ok(new None());
+  }
+
+  // Record a cell read or written by the VM while running an instruction.
+  // The cells never accessed are the memory holes of the run.
+  markAsAccessed(address: Relocatable) {
+    const offsets = this.accessedOffsets.get(address.getSegmentIndex());
+    if (offsets === undefined) {
+      this.accessedOffsets.set(
+        address.getSegmentIndex(),
+        new Set([address.getOffset()])
+      );
+    } else {
+      offsets.add(address.getOffset());
+    }
+  }
+
+  isAccessed(address: Relocatable): boolean {
+    return (
+      this.accessedOffsets
+        .get(address.getSegmentIndex())
+        ?.has(address.getOffset()) ?? false
+    );
+  }
+
+  // Number of accessed cells of a segment.
+  getNumAccessed(segmentIndex: number): number {
+    return this.accessedOffsets.get(segmentIndex)?.size ?? 0;
+  }
+
+  // Relocate the temporary segment starting at `src` to `dest`.
+  addRelocationRule(
+    src: Relocatable,
+    dest: Relocatable
+  ): Result<true, VMError> {
+    if (!src.isTemporary()) {
+      return new Err(TemporarySegmentRelocationError);
+    }
+    if (src.getOffset() !== 0) {
+      return new Err(RelocationOffsetError);
+    }
+    if (this.getSegment(src.getSegmentIndex()) === undefined) {
+      return new Err(SegmentError);
+    }
+    if (this.relocationRules.has(src.getSegmentIndex())) {
+      return new Err(DuplicateRelocationRuleError);
+    }
+    this.relocationRules.set(src.getSegmentIndex(), dest);
+    return new Ok(true as const);
+  }
+
+  // Move the cells of the temporary segments to their destination
+  // and replace the values pointing to them, then drop the rules.
+  applyRelocationRules(): Result<true, VMError> {
+    for (const [segmentIndex, segment] of this.tempData.entries()) {
+      const index = -segmentIndex - 1;
+      if (!this.relocationRules.has(index)) {
+        continue;
+      }
+      for (let offset = 0; offset < segment.length; offset++) {
+        if (segment[offset] === undefined) {
+          continue;
+        }
+        const address = this.relocateAddress(new Relocatable(index, offset));
+        if (address.isErr()) {
+          return address;
+        }
+        const value = this.relocateValue(segment[offset]);
+        if (value.isErr()) {
+          return value;
+        }
+        // The destination may already hold the same value.
+        const existing = this.getSegment(address.unwrap().getSegmentIndex())?.[
+          address.unwrap().getOffset()
+        ];
+        if (existing !== undefined && isEqual(existing, value.unwrap())) {
+          continue;
+        }
+        const insert = this.insert(address.unwrap(), value.unwrap());
+        if (insert.isErr()) {
+          return insert;
+        }
+      }
+      this.tempData[segmentIndex] = [];
+
+      for (const offset of this.accessedOffsets.get(index) ?? []) {
+        const address = this.relocateAddress(new Relocatable(index, offset));
+        if (address.isErr()) {
+          return address;
+        }
+        this.markAsAccessed(address.unwrap());
+      }
+      this.accessedOffsets.delete(index);
+    }
+
+    for (const segment of [...this.data, ...this.tempData]) {
+      for (let offset = 0; offset < segment.length; offset++) {
+        if (segment[offset] !== undefined) {
+          const value = this.relocateValue(segment[offset]);
+          if (value.isErr()) {
+            return value;
+          }
+          segment[offset] = value.unwrap();
+        }
+      }
+    }
+    this.relocationRules.clear();
+    return new Ok(true as const);
+  }
+
+  // Iterate over the written cells, skipping the holes of each segment.
+  // The cells of the temporary segments come last.
+  *entries(): IterableIterator<[Relocatable, MaybeRelocatable]> {
+    const segments = [
+      ...this.data.map((segment, index) => [index, segment] as const),
+      ...this.tempData.map((segment, index) => [-index - 1, segment] as const),
+    ];
+    for (const [index, segment] of segments) {
+      for (let offset = 0; offset < segment.length; offset++) {
+        const value = segment[offset];
+        if (value !== undefined) {
+          yield [new Relocatable(index, offset), value];
+        }
+      }
+    }
   }
 
   incrementNumSegments() {
@@ -57,9 +295,80 @@ export class Memory {
       );
     }
     this.numSegments = newNumSegments.unwrap();
+    this.data.push([]);
   }
 
   getNumSegments(): Uint32 {
     return this.numSegments;
   }
+
+  incrementNumTempSegments() {
+    const newNumTempSegments = UnsignedInteger.toUint32(
+      this.numTempSegments + 1
+    );
+    if (newNumTempSegments.isErr()) {
+      throw new MemoryError(
+        'MemoryError: error incrementing number of temporary segments'
+      );
+    }
+    this.numTempSegments = newNumTempSegments.unwrap();
+    this.tempData.push([]);
+  }
+
+  getNumTempSegments(): Uint32 {
+    return this.numTempSegments;
+  }
+
+  // Apply all the validation rules of the segment of a written cell.
+  private validate(address: Relocatable): Result<true, VMError> {
+    const rules = this.validationRules.get(address.getSegmentIndex()) ?? [];
+    const errors: VMError[] = [];
+    for (const rule of rules) {
+      const validation = rule(this, address);
+      if (validation.isErr()) {
+        errors.push(validation.unwrapErr());
+      }
+    }
+    if (errors.length > 0) {
+      return new Err(compose(errors));
+    }
+    return new Ok(true as const);
+  }
+
+  private getSegment(segmentIndex: number): MaybeRelocatable[] | undefined {
+    return segmentIndex >= 0
+      ? this.data[segmentIndex]
+      : this.tempData[-segmentIndex - 1];
+  }
+
+  // Apply the relocation rules to an address, following the rules
+  // whose destination is itself a temporary segment.
+  private relocateAddress(address: Relocatable): Result<Relocatable, VMError> {
+    const dest = this.relocationRules.get(address.getSegmentIndex());
+    if (dest === undefined) {
+      return new Ok(address);
+    }
+    const base = this.relocateAddress(dest);
+    if (base.isErr()) {
+      return base;
+    }
+    return base.unwrap().add(address.getOffset());
+  }
+
+  private relocateValue(
+    value: MaybeRelocatable
+  ): Result<MaybeRelocatable, VMError> {
+    return value instanceof Relocatable
+      ? this.relocateAddress(value)
+      : new Ok(value);
+  }
+}
+
+// A single error is returned as is, so that it can be matched.
+function compose(errors: VMError[]): VMError {
+  return errors.length === 1 ? errors[0] : Err.composeErrors(errors);
+}
+
+function isEqual(a: MaybeRelocatable, b: MaybeRelocatable): boolean {
+  return a instanceof Felt ? b instanceof Felt && a.eq(b) : a.eq(b);
 }
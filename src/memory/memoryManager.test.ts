@@ -1,5 +1,9 @@
 import { describe, test, expect } from 'bun:test';
-import { MemorySegmentManager } from './memoryManager';
+import {
+  MemorySegmentManager,
+  TemporarySegmentError,
+  UnknownSegmentError,
+} from './memoryManager';
 import { Relocatable } from 'primitives/relocatable';
 import { Felt } from 'primitives/felt';
 import { UnsignedInteger } from 'primitives/uint';
@@ -27,6 +31,17 @@ describe('MemoryManager', () => {
       expect(memoryManager.memory.getNumSegments()).toEqual(1);
     });
   });
+  describe('addTempSegment', () => {
+    test('should add temporary segments of negative index', () => {
+      const memoryManager = new MemorySegmentManager();
+      memoryManager.addSegment();
+
+      expect(memoryManager.addTempSegment()).toEqual(new Relocatable(-1, 0));
+      expect(memoryManager.addTempSegment()).toEqual(new Relocatable(-2, 0));
+      expect(memoryManager.memory.getNumSegments()).toEqual(1);
+      expect(memoryManager.memory.getNumTempSegments()).toEqual(2);
+    });
+  });
   describe('loadData', () => {
     test('should return the final state of the pointer', () => {
       const memoryManager = new MemorySegmentManager();
@@ -42,7 +57,7 @@ describe('MemoryManager', () => {
       const address = new Relocatable(0, 0);
       memoryManager.loadData(address, DATA);
 
-      expect([...memoryManager.memory.data.values()]).toEqual(DATA);
+      expect(memoryManager.memory.data[0]).toEqual(DATA);
     });
     test('should update segmentSizes', () => {
       const memoryManager = new MemorySegmentManager();
@@ -57,4 +72,107 @@ describe('MemoryManager', () => {
       );
     });
   });
+  describe('computeEffectiveSizes', () => {
+    test('should compute the size of each segment from its written cells', () => {
+      const memoryManager = new MemorySegmentManager();
+      memoryManager.addSegment();
+      memoryManager.addSegment();
+      memoryManager.addSegment();
+      memoryManager.loadData(new Relocatable(0, 0), DATA);
+      memoryManager.memory.insert(new Relocatable(2, 3), new Felt(1n));
+
+      expect(memoryManager.computeEffectiveSizes()).toEqual([5, 0, 4]);
+      expect(
+        memoryManager.getSegmentSize(UnsignedInteger.toUint32(2).unwrap())
+      ).toEqual(UnsignedInteger.toUint32(4).unwrap());
+    });
+  });
+  describe('getMemoryHoles', () => {
+    test('should count the unaccessed cells of the non-builtin segments', () => {
+      const memoryManager = new MemorySegmentManager();
+      memoryManager.addSegment();
+      memoryManager.addSegment();
+      memoryManager.loadData(new Relocatable(0, 0), DATA);
+      memoryManager.memory.insert(new Relocatable(1, 2), new Felt(1n));
+      memoryManager.memory.markAsAccessed(new Relocatable(0, 3));
+      memoryManager.memory.markAsAccessed(new Relocatable(1, 2));
+
+      expect(memoryManager.getMemoryHoles([])).toEqual(6);
+      expect(memoryManager.getMemoryHoles([1])).toEqual(4);
+    });
+  });
+  describe('getRelocationTable', () => {
+    test('should lay out the segments one after the other, starting at 1', () => {
+      const memoryManager = new MemorySegmentManager();
+      memoryManager.addSegment();
+      memoryManager.addSegment();
+      memoryManager.addSegment();
+      memoryManager.loadData(new Relocatable(0, 0), DATA);
+      memoryManager.memory.insert(new Relocatable(2, 3), new Felt(1n));
+
+      expect(memoryManager.getRelocationTable()).toEqual([1, 6, 6]);
+    });
+  });
+  describe('relocateMemory', () => {
+    test('should relocate addresses and relocatable values', () => {
+      const memoryManager = new MemorySegmentManager();
+      memoryManager.addSegment();
+      memoryManager.addSegment();
+      memoryManager.loadData(new Relocatable(0, 0), DATA);
+      memoryManager.loadData(new Relocatable(1, 0), [new Felt(7n)]);
+      const table = memoryManager.getRelocationTable();
+      const relocatedMemory = memoryManager.relocateMemory(table).unwrap();
+
+      expect([...relocatedMemory.entries()]).toEqual([
+        [1, new Felt(1n)],
+        [2, new Felt(2n)],
+        [3, new Felt(1n)],
+        [4, new Felt(2n)],
+        [5, new Felt(7n)],
+        [6, new Felt(7n)],
+      ]);
+    });
+    test('should return an error for a value of an unknown segment', () => {
+      const memoryManager = new MemorySegmentManager();
+      memoryManager.addSegment();
+      memoryManager.loadData(new Relocatable(0, 0), DATA);
+      const result = memoryManager
+        .relocateMemory([UnsignedInteger.toUint32(1).unwrap()])
+        .unwrapErr();
+
+      expect(result).toEqual(UnknownSegmentError);
+    });
+    test('should return an error for a temporary segment left', () => {
+      const memoryManager = new MemorySegmentManager();
+      memoryManager.addSegment();
+      const temp = memoryManager.addTempSegment();
+      memoryManager.loadData(new Relocatable(0, 0), [temp]);
+      const table = memoryManager.getRelocationTable();
+
+      expect(memoryManager.relocateMemory(table).unwrapErr()).toEqual(
+        TemporarySegmentError
+      );
+    });
+  });
+  describe('getPublicMemoryAddresses', () => {
+    test('should relocate the public memory in the order of the segments', () => {
+      const memoryManager = new MemorySegmentManager();
+      memoryManager.addSegment();
+      memoryManager.addSegment();
+      memoryManager.loadData(new Relocatable(0, 0), DATA);
+      memoryManager.loadData(new Relocatable(1, 0), [new Felt(7n)]);
+      memoryManager.finalize(1, [{ offset: 0, page: 0 }]);
+      memoryManager.finalize(0, [
+        { offset: 0, page: 0 },
+        { offset: 4, page: 1 },
+      ]);
+      const table = memoryManager.getRelocationTable();
+
+      expect(memoryManager.getPublicMemoryAddresses(table).unwrap()).toEqual([
+        { address: 1, page: 0 },
+        { address: 5, page: 1 },
+        { address: 6, page: 0 },
+      ]);
+    });
+  });
 });
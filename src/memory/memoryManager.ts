@@ -1,14 +1,35 @@
 import { Uint32, UnsignedInteger } from 'primitives/uint';
 import { Memory } from './memory';
 import { MaybeRelocatable, Relocatable } from 'primitives/relocatable';
-import { Result, VMError } from 'result-pattern/result';
+import { Felt, Field } from 'primitives/felt';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+
+export const UnknownSegmentError = {
+  message: 'MemorySegmentManagerError: cannot relocate an unknown segment',
+};
+
+export const TemporarySegmentError = {
+  message:
+    'MemorySegmentManagerError: cannot relocate a temporary segment without relocation rule',
+};
+
+// Relocation table: the flat address of the beginning of each segment.
+export type RelocationTable = Uint32[];
+
+// A cell of the public memory, by its offset in its segment, and its page.
+export type PublicMemoryOffset = { offset: number; page: number };
+
+// A cell of the relocated public memory, by its flat address.
+export type PublicMemoryAddress = { address: number; page: number };
 
 export class MemorySegmentManager {
-  private segmentSizes: Map<Uint32, Uint32>;
+  private segmentSizes: Map<number, Uint32>;
+  private publicMemoryOffsets: Map<number, PublicMemoryOffset[]>;
   memory: Memory;
 
   constructor() {
     this.segmentSizes = new Map();
+    this.publicMemoryOffsets = new Map();
     this.memory = new Memory();
   }
 
@@ -18,6 +39,14 @@ export class MemorySegmentManager {
     return ptr;
   }
 
+  // Allocate a temporary segment, to be moved to a real one
+  // by a relocation rule, e.g. once its size is known.
+  addTempSegment(): Relocatable {
+    const ptr = new Relocatable(-this.memory.getNumTempSegments() - 1, 0);
+    this.memory.incrementNumTempSegments();
+    return ptr;
+  }
+
   loadData(
     address: Relocatable,
     data: MaybeRelocatable[]
@@ -53,7 +82,132 @@ export class MemorySegmentManager {
     return address.add(dataLen.unwrap());
   }
 
-  getSegmentSize(segmentIndex: Uint32): Uint32 {
+  getSegmentSize(segmentIndex: number): Uint32 {
     return this.segmentSizes.get(segmentIndex) ?? UnsignedInteger.ZERO_UINT32;
   }
+
+  // Compute the size of each segment from its written cells,
+  // i.e. the largest written offset + 1, and update the segment sizes.
+  computeEffectiveSizes(): Uint32[] {
+    const sizes: Uint32[] = [];
+    for (let index = 0; index < this.memory.getNumSegments(); index++) {
+      sizes.push(this.getSegmentSize(UnsignedInteger.toUint32(index).unwrap()));
+    }
+
+    for (const [address] of this.memory.entries()) {
+      if (address.isTemporary()) {
+        continue;
+      }
+      const segmentIndex = address.getSegmentIndex();
+      const size = UnsignedInteger.toUint32(address.getOffset() + 1).unwrap();
+      if (size > sizes[segmentIndex]) {
+        sizes[segmentIndex] = size;
+      }
+    }
+
+    sizes.forEach((size, index) =>
+      this.segmentSizes.set(UnsignedInteger.toUint32(index).unwrap(), size)
+    );
+    return sizes;
+  }
+
+  // Cells below the size of the segments which were never accessed by
+  // the VM, builtin segments aside: the builtins account for their cells.
+  getMemoryHoles(builtinSegments: number[]): number {
+    let holes = 0;
+    this.computeEffectiveSizes().forEach((size, index) => {
+      if (!builtinSegments.includes(index)) {
+        holes += size - this.memory.getNumAccessed(index);
+      }
+    });
+    return holes;
+  }
+
+  // Segments are laid out one after the other in a flat address space.
+  // As in the reference VMs, the first segment starts at address 1.
+  getRelocationTable(): RelocationTable {
+    const table: RelocationTable = [];
+    let base = 1;
+    for (const size of this.computeEffectiveSizes()) {
+      table.push(UnsignedInteger.toUint32(base).unwrap());
+      base += size;
+    }
+    return table;
+  }
+
+  // Relocate the whole memory: every address and every relocatable value
+  // is replaced by its flat address, a felt of the given field.
+  relocateMemory(
+    table: RelocationTable,
+    field: Field = Field.STARKNET
+  ): Result<Map<number, Felt>, VMError> {
+    const relocatedMemory = new Map<number, Felt>();
+    for (const [address, value] of this.memory.entries()) {
+      const relocatedAddress = relocateAddress(address, table);
+      if (relocatedAddress.isErr()) {
+        return relocatedAddress;
+      }
+      const relocatedValue = relocateValue(value, table, field);
+      if (relocatedValue.isErr()) {
+        return relocatedValue;
+      }
+      relocatedMemory.set(relocatedAddress.unwrap(), relocatedValue.unwrap());
+    }
+    return new Ok(relocatedMemory);
+  }
+
+  // Record the cells of a segment which are part of the public memory,
+  // i.e. disclosed to the verifier in proof mode.
+  finalize(segmentIndex: number, publicMemory: PublicMemoryOffset[]) {
+    this.publicMemoryOffsets.set(segmentIndex, publicMemory);
+  }
+
+  // The flat addresses of the public memory, in the order of the segments.
+  getPublicMemoryAddresses(
+    table: RelocationTable
+  ): Result<PublicMemoryAddress[], VMError> {
+    const addresses: PublicMemoryAddress[] = [];
+    const segments = [...this.publicMemoryOffsets.entries()].sort(
+      ([a], [b]) => a - b
+    );
+    for (const [segmentIndex, offsets] of segments) {
+      const base = table[segmentIndex];
+      if (base === undefined) {
+        return new Err(UnknownSegmentError);
+      }
+      for (const { offset, page } of offsets) {
+        addresses.push({ address: base + offset, page });
+      }
+    }
+    return new Ok(addresses);
+  }
+}
+
+export function relocateAddress(
+  address: Relocatable,
+  table: RelocationTable
+): Result<number, VMError> {
+  if (address.isTemporary()) {
+    return new Err(TemporarySegmentError);
+  }
+  const base = table[address.getSegmentIndex()];
+  if (base === undefined) {
+    return new Err(UnknownSegmentError);
+  }
+  return new Ok(base + address.getOffset());
+}
+
+export function relocateValue(
+  value: MaybeRelocatable,
+  table: RelocationTable,
+  field: Field = Field.STARKNET
+): Result<Felt, VMError> {
+  if (value instanceof Felt) {
+    return new Ok(value);
+  }
+  const address = relocateAddress(value, table);
+  if (address.isErr()) {
+    return address;
+  }
+  return new Ok(field.felt(BigInt(address.unwrap())));
 }
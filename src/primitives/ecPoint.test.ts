@@ -0,0 +1,77 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  EcPoint,
+  SameXCoordinateError,
+  STARK_CURVE,
+  STARK_GENERATOR as GENERATOR,
+  ZeroScalarError,
+  ZeroYCoordinateError,
+} from './ecPoint';
+import { Felt } from './felt';
+
+describe('EcPoint', () => {
+  describe('fromX', () => {
+    test('should recover a point of the curve from its x coordinate', () => {
+      const point = EcPoint.fromX(GENERATOR.x).unwrap();
+      expect(point.eq(GENERATOR) || point.eq(GENERATOR.neg())).toBeTrue();
+    });
+
+    test('should return None if no point has the x coordinate', () => {
+      // x^3 + x + beta is not a square for x = 0.
+      expect(EcPoint.fromX(new Felt(0n)).isNone()).toBeTrue();
+    });
+  });
+
+  describe('isOnCurve', () => {
+    test('should accept the generator of the STARK curve', () => {
+      expect(GENERATOR.isOnCurve()).toBeTrue();
+    });
+
+    test('should reject a point off the curve', () => {
+      const point = new EcPoint(GENERATOR.x, GENERATOR.y.add(new Felt(1n)));
+      expect(point.isOnCurve()).toBeFalse();
+    });
+  });
+
+  describe('add', () => {
+    test('should stay on the curve', () => {
+      const point = GENERATOR.add(GENERATOR.double().unwrap()).unwrap();
+      expect(point.isOnCurve()).toBeTrue();
+    });
+
+    test('should return an error for points with the same x coordinate', () => {
+      expect(GENERATOR.add(GENERATOR.neg()).unwrapErr()).toEqual(
+        SameXCoordinateError
+      );
+    });
+  });
+
+  describe('double', () => {
+    test('should return an error for a zero y coordinate', () => {
+      const point = new EcPoint(new Felt(1n), new Felt(0n));
+      expect(point.double().unwrapErr()).toEqual(ZeroYCoordinateError);
+    });
+  });
+
+  describe('mul', () => {
+    test('should match repeated additions', () => {
+      const double = GENERATOR.double().unwrap();
+      const expected = double.double().unwrap().add(GENERATOR).unwrap();
+      expect(GENERATOR.mul(5n).unwrap()).toEqual(expected);
+    });
+
+    test('should return the point itself for one', () => {
+      expect(GENERATOR.mul(1n).unwrap()).toEqual(GENERATOR);
+    });
+
+    test('should return the opposite point for the order minus one', () => {
+      expect(GENERATOR.mul(STARK_CURVE.order - 1n).unwrap()).toEqual(
+        GENERATOR.neg()
+      );
+    });
+
+    test('should return an error for a zero scalar', () => {
+      expect(GENERATOR.mul(0n).unwrapErr()).toEqual(ZeroScalarError);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { None, Option, Some } from 'option-pattern/option';
+import { Felt } from './felt';
+
+export const SameXCoordinateError = {
+  message: 'EcPointError: cannot add two points with the same x coordinate',
+};
+
+export const ZeroYCoordinateError = {
+  message: 'EcPointError: cannot double a point with a zero y coordinate',
+};
+
+export const ZeroScalarError = {
+  message: 'EcPointError: cannot multiply a point by zero',
+};
+
+// Parameters of the STARK curve y^2 = x^3 + alpha * x + beta.
+export const STARK_CURVE = {
+  alpha: new Felt(1n),
+  beta: new Felt(
+    0x6f21413efbe40de150e596d72f7a8c5609ad26c15c915c1f4cdfcb99cee9e89n
+  ),
+  order: 0x800000000000010ffffffffffffffffb781126dcae7b2321e66a241adc64d2fn,
+};
+
+/**
+ * An affine point of an elliptic curve over the field of its coordinates.
+ * As in cairo-lang, the point at infinity is not represented:
+ * the operations which would produce it fail instead.
+ */
+export class EcPoint {
+  constructor(
+    readonly x: Felt,
+    readonly y: Felt
+  ) {}
+
+  // A point of the curve of the given x coordinate, if any:
+  // the one with the smallest y coordinate, the other one being its opposite.
+  static fromX(
+    x: Felt,
+    alpha: Felt = STARK_CURVE.alpha,
+    beta: Felt = STARK_CURVE.beta
+  ): Option<EcPoint> {
+    const y = x.mul(x).mul(x).add(alpha.mul(x)).add(beta).sqrt();
+    if (y.isNone()) {
+      return y;
+    }
+    return new Some(new EcPoint(x, y.unwrap()));
+  }
+
+  isOnCurve(
+    alpha: Felt = STARK_CURVE.alpha,
+    beta: Felt = STARK_CURVE.beta
+  ): boolean {
+    const rhs = this.x.mul(this.x).mul(this.x).add(alpha.mul(this.x)).add(beta);
+    return this.y.mul(this.y).eq(rhs);
+  }
+
+  add(other: EcPoint): Result<EcPoint, VMError> {
+    const slope = other.y.sub(this.y).div(other.x.sub(this.x));
+    if (slope.isErr()) {
+      return new Err(SameXCoordinateError);
+    }
+    return new Ok(this.fromSlope(slope.unwrap(), other));
+  }
+
+  double(alpha: Felt = STARK_CURVE.alpha): Result<EcPoint, VMError> {
+    const three = new Felt(3n, this.x.field);
+    const slope = three
+      .mul(this.x)
+      .mul(this.x)
+      .add(alpha)
+      .div(this.y.add(this.y));
+    if (slope.isErr()) {
+      return new Err(ZeroYCoordinateError);
+    }
+    return new Ok(this.fromSlope(slope.unwrap(), this));
+  }
+
+  // Double-and-add multiplication by a positive scalar.
+  mul(
+    scalar: bigint,
+    alpha: Felt = STARK_CURVE.alpha
+  ): Result<EcPoint, VMError> {
+    if (scalar <= 0n) {
+      return new Err(ZeroScalarError);
+    }
+    let result: Option<EcPoint> = new None();
+    let power: EcPoint = this;
+    let k = scalar;
+    while (true) {
+      if (k & 1n) {
+        const sum: Result<EcPoint, VMError> = result.isNone()
+          ? new Ok(power)
+          : result.unwrap().add(power);
+        if (sum.isErr()) {
+          return sum;
+        }
+        result = new Some(sum.unwrap());
+      }
+      k >>= 1n;
+      if (k === 0n) {
+        return new Ok(result.unwrap());
+      }
+      const doubled = power.double(alpha);
+      if (doubled.isErr()) {
+        return doubled;
+      }
+      power = doubled.unwrap();
+    }
+  }
+
+  neg(): EcPoint {
+    return new EcPoint(this.x, this.y.neg());
+  }
+
+  eq(other: EcPoint): boolean {
+    return this.x.eq(other.x) && this.y.eq(other.y);
+  }
+
+  // The third intersection of the line of the given slope through
+  // this point and other, reflected over the x axis.
+  private fromSlope(slope: Felt, other: EcPoint): EcPoint {
+    const x = slope.mul(slope).sub(this.x).sub(other.x);
+    const y = slope.mul(this.x.sub(x)).sub(this.y);
+    return new EcPoint(x, y);
+  }
+}
+
+// Generator of the STARK curve.
+export const STARK_GENERATOR = new EcPoint(
+  new Felt(0x1ef15c18599971b7beced415a40f0c7deacfd9b0d1819e03d723d8bc943cfcan),
+  new Felt(0x5668060aa49730b7be4801df46ec62de53ecd11abe43a32873000c36e8dc1fn)
+);
@@ -1,5 +1,6 @@
 import { test, expect, describe } from 'bun:test';
-import { Felt, FeltError } from './felt';
+import { Felt, FeltError, DivisionByZeroError, Field } from './felt';
+import { None, Some } from 'option-pattern/option';
 import { NumberConversionError } from './uint';
 
 describe('Felt', () => {
@@ -11,6 +12,13 @@ describe('Felt', () => {
         )
       );
     });
+    test('should throw a FeltError when initializing with PRIME', () => {
+      expect(() => new Felt(Felt.PRIME)).toThrow(
+        new FeltError(
+          'FeltError: cannot initialize a Felt with underlying bigint negative, or greater than Felt.PRIME'
+        )
+      );
+    });
     test('should throw a FeltError when initializing with a BigInt larger than PRIME', () => {
       const biggerThanPrime = Felt.PRIME + 1n;
       expect(() => new Felt(biggerThanPrime)).toThrow(
@@ -81,6 +89,124 @@ describe('Felt', () => {
       expect(result.eq(expected)).toBeTrue();
     });
   });
+  describe('mul', () => {
+    test('should multiply two felts properly', () => {
+      const a = new Felt(1000n);
+      const b = new Felt(3n);
+      expect(a.mul(b)).toEqual(new Felt(3000n));
+    });
+    test('should wrap around the prime field when multiplying', () => {
+      const minusOne = new Felt(Felt.PRIME - 1n);
+      const minusTwo = new Felt(Felt.PRIME - 2n);
+      expect(minusOne.mul(minusOne)).toEqual(new Felt(1n));
+      expect(minusOne.mul(minusTwo)).toEqual(new Felt(2n));
+      expect(new Felt(2n ** 251n).mul(new Felt(32n))).toEqual(
+        new Felt(2n ** 256n % Felt.PRIME)
+      );
+    });
+  });
+  describe('neg', () => {
+    test('should negate a felt', () => {
+      expect(new Felt(1n).neg()).toEqual(new Felt(Felt.PRIME - 1n));
+      expect(new Felt(Felt.PRIME - 1n).neg()).toEqual(new Felt(1n));
+    });
+    test('should keep zero unchanged', () => {
+      expect(new Felt(0n).neg()).toEqual(new Felt(0n));
+    });
+  });
+  describe('inv', () => {
+    test('should compute the modular inverse', () => {
+      expect(new Felt(2n).inv().unwrap()).toEqual(
+        new Felt((Felt.PRIME + 1n) / 2n)
+      );
+      expect(new Felt(Felt.PRIME - 1n).inv().unwrap()).toEqual(
+        new Felt(Felt.PRIME - 1n)
+      );
+      expect(new Felt(1n).inv().unwrap()).toEqual(new Felt(1n));
+    });
+    test('should give one when multiplied by the felt', () => {
+      const a = new Felt(0x1234567890abcdef1234567890abcdefn);
+      expect(a.mul(a.inv().unwrap())).toEqual(new Felt(1n));
+    });
+    test('should return an error for zero', () => {
+      expect(new Felt(0n).inv().unwrapErr()).toEqual(DivisionByZeroError);
+    });
+  });
+  describe('div', () => {
+    test('should divide two felts properly', () => {
+      expect(new Felt(3000n).div(new Felt(3n)).unwrap()).toEqual(
+        new Felt(1000n)
+      );
+    });
+    test('should divide in the prime field', () => {
+      const result = new Felt(1n).div(new Felt(3n)).unwrap();
+      expect(result).toEqual(new Felt((Felt.PRIME + 1n) / 3n));
+      expect(result.mul(new Felt(3n))).toEqual(new Felt(1n));
+    });
+    test('should return an error when dividing by zero', () => {
+      expect(new Felt(1n).div(new Felt(0n)).unwrapErr()).toEqual(
+        DivisionByZeroError
+      );
+    });
+  });
+  describe('pow', () => {
+    test('should compute the power of a felt', () => {
+      expect(new Felt(3n).pow(5n)).toEqual(new Felt(243n));
+      expect(new Felt(3n).pow(0n)).toEqual(new Felt(1n));
+      expect(new Felt(2n).pow(251n)).toEqual(new Felt(2n ** 251n));
+    });
+    test('should satisfy Fermat little theorem', () => {
+      const a = new Felt(Felt.PRIME - 12345n);
+      expect(a.pow(Felt.PRIME - 1n)).toEqual(new Felt(1n));
+      expect(a.pow(Felt.PRIME)).toEqual(a);
+    });
+  });
+  describe('legendre', () => {
+    test('should return 0 for zero', () => {
+      expect(new Felt(0n).legendre()).toEqual(0);
+    });
+    test('should return 1 for a square', () => {
+      expect(new Felt(4n).legendre()).toEqual(1);
+      expect(new Felt(Felt.PRIME - 1n).legendre()).toEqual(1);
+    });
+    test('should return -1 for a non-square', () => {
+      expect(new Felt(3n).legendre()).toEqual(-1);
+    });
+  });
+  describe('sqrt', () => {
+    test('should return the smallest square root', () => {
+      expect(new Felt(4n).sqrt()).toEqual(new Some(new Felt(2n)));
+      expect(new Felt(0n).sqrt()).toEqual(new Some(new Felt(0n)));
+    });
+    test('should compute the square root of a large square', () => {
+      const root = new Felt(Felt.PRIME - 0xdeadbeefn);
+      const result = root.mul(root).sqrt().unwrap();
+      expect(result).toEqual(new Felt(0xdeadbeefn));
+    });
+    test('should compute the square root of -1', () => {
+      const result = new Felt(Felt.PRIME - 1n).sqrt().unwrap();
+      expect(result.mul(result)).toEqual(new Felt(Felt.PRIME - 1n));
+      expect(result.lt(result.neg())).toBeTrue();
+    });
+    test('should return None for a non-square', () => {
+      expect(new Felt(3n).sqrt()).toEqual(new None());
+    });
+  });
+  describe('comparisons', () => {
+    test('should compare felts by their canonical representative', () => {
+      const small = new Felt(1n);
+      const large = new Felt(Felt.PRIME - 1n);
+      expect(small.lt(large)).toBeTrue();
+      expect(large.gt(small)).toBeTrue();
+      expect(small.le(small)).toBeTrue();
+      expect(large.ge(large)).toBeTrue();
+      expect(large.lt(small)).toBeFalse();
+    });
+    test('should tell whether a felt is zero', () => {
+      expect(new Felt(0n).isZero()).toBeTrue();
+      expect(new Felt(1n).isZero()).toBeFalse();
+    });
+  });
   describe('toUint32', () => {
     test('should return an error if the felt is larger than the max safe integer', () => {
       const a = new Felt(2n ** 53n);
@@ -88,4 +214,44 @@ describe('Felt', () => {
       expect(result).toEqual(NumberConversionError);
     });
   });
+
+  describe('field', () => {
+    const SMALL_FIELD = new Field(7n);
+
+    test('should default to the Starknet field', () => {
+      expect(new Felt(1n).field).toBe(Field.STARKNET);
+      expect(Field.STARKNET.prime).toEqual(Felt.PRIME);
+    });
+    test('should compute in the field of the felt', () => {
+      const a = SMALL_FIELD.felt(3n);
+      const b = SMALL_FIELD.felt(5n);
+      expect(a.add(b)).toEqual(SMALL_FIELD.felt(1n));
+      expect(a.sub(b)).toEqual(SMALL_FIELD.felt(5n));
+      expect(a.mul(b)).toEqual(SMALL_FIELD.felt(1n));
+      expect(a.inv().unwrap()).toEqual(SMALL_FIELD.felt(5n));
+      expect(a.neg()).toEqual(SMALL_FIELD.felt(4n));
+      expect(SMALL_FIELD.felt(2n).sqrt()).toEqual(
+        new Some(SMALL_FIELD.felt(3n))
+      );
+    });
+    test('should reduce any integer to a felt of the field', () => {
+      expect(SMALL_FIELD.reduce(9n)).toEqual(SMALL_FIELD.felt(2n));
+      expect(SMALL_FIELD.reduce(-1n)).toEqual(SMALL_FIELD.felt(6n));
+    });
+    test('should throw if the value does not belong to the field', () => {
+      expect(() => SMALL_FIELD.felt(7n)).toThrow(
+        new FeltError(
+          'FeltError: cannot initialize a Felt with underlying bigint negative, or greater than Felt.PRIME'
+        )
+      );
+    });
+    test('should throw when operating on felts of different fields', () => {
+      expect(() => SMALL_FIELD.felt(3n).add(new Felt(3n))).toThrow(
+        new FeltError('FeltError: cannot operate on felts of different fields')
+      );
+    });
+    test('should not consider felts of different fields equal', () => {
+      expect(SMALL_FIELD.felt(3n).eq(new Felt(3n))).toBeFalse();
+    });
+  });
 });
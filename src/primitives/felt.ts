@@ -1,37 +1,197 @@
-import { Result, Err, VMError } from 'result-pattern/result';
+import { Result, Err, Ok, VMError } from 'result-pattern/result';
+import { None, Option, Some } from 'option-pattern/option';
 import { NumberConversionError, Uint32, Uint64, UnsignedInteger } from './uint';
 
 export class FeltError extends Error {}
 
+export const DivisionByZeroError = {
+  message: 'FeltError: division by zero',
+};
+
+/**
+ * A prime field. Felts hold a reference to their field rather than
+ * the prime itself, so that all the felts of a field share it.
+ * It defaults to the Starknet field, i.e. PRIME = 2^251 + 17 * 2^192 + 1.
+ */
+export class Field {
+  static readonly STARKNET: Field = new Field(
+    0x800000000000011000000000000000000000000000000000000000000000001n
+  );
+
+  constructor(readonly prime: bigint) {}
+
+  felt(value: bigint): Felt {
+    return new Felt(value, this);
+  }
+
+  // The felt of any integer, e.g. negative constants of a program.
+  reduce(value: bigint): Felt {
+    const inner = value % this.prime;
+    return new Felt(inner < 0n ? inner + this.prime : inner, this);
+  }
+}
+
 export class Felt {
   // TODO: should check for PRIME overflow.
   // TODO: put private to make sure nothing is broken once this is added
   private inner: bigint;
-  static PRIME: bigint =
-    0x800000000000011000000000000000000000000000000000000000000000001n;
-  constructor(_inner: bigint) {
-    if (_inner < 0n || _inner > Felt.PRIME) {
+  // Reference to the field shared by all its felts.
+  readonly field: Field;
+  static readonly PRIME: bigint = Field.STARKNET.prime;
+  constructor(_inner: bigint, field: Field = Field.STARKNET) {
+    if (_inner < 0n || _inner >= field.prime) {
       throw new FeltError(
         'FeltError: cannot initialize a Felt with underlying bigint negative, or greater than Felt.PRIME'
       );
     }
     this.inner = _inner;
+    this.field = field;
   }
 
   add(other: Felt): Felt {
-    return new Felt((this.inner + other.inner) % Felt.PRIME);
+    this.assertSameField(other);
+    return new Felt((this.inner + other.inner) % this.field.prime, this.field);
   }
 
   sub(other: Felt): Felt {
+    this.assertSameField(other);
     let result = this.inner - other.inner;
     if (result < 0n) {
-      result += Felt.PRIME;
+      result += this.field.prime;
     }
-    return new Felt(result);
+    return new Felt(result, this.field);
+  }
+
+  mul(other: Felt): Felt {
+    this.assertSameField(other);
+    return new Felt((this.inner * other.inner) % this.field.prime, this.field);
+  }
+
+  neg(): Felt {
+    return this.inner === 0n
+      ? this
+      : new Felt(this.field.prime - this.inner, this.field);
+  }
+
+  // Modular inverse, computed with the extended Euclidean algorithm.
+  inv(): Result<Felt, VMError> {
+    if (this.inner === 0n) {
+      return new Err(DivisionByZeroError);
+    }
+    let [r0, r1] = [this.field.prime, this.inner];
+    let [t0, t1] = [0n, 1n];
+    while (r1 !== 0n) {
+      const q = r0 / r1;
+      [r0, r1] = [r1, r0 - q * r1];
+      [t0, t1] = [t1, t0 - q * t1];
+    }
+    return new Ok(new Felt(t0 < 0n ? t0 + this.field.prime : t0, this.field));
+  }
+
+  div(other: Felt): Result<Felt, VMError> {
+    const inverse = other.inv();
+    if (inverse.isErr()) {
+      return inverse;
+    }
+    return new Ok(this.mul(inverse.unwrap()));
+  }
+
+  // Modular exponentiation by squaring.
+  pow(exponent: bigint): Felt {
+    let result = 1n;
+    let base = this.inner;
+    let e = exponent;
+    while (e > 0n) {
+      if (e & 1n) {
+        result = (result * base) % this.field.prime;
+      }
+      base = (base * base) % this.field.prime;
+      e >>= 1n;
+    }
+    return new Felt(result, this.field);
+  }
+
+  // Legendre symbol: 1 if the felt is a non-zero square, -1 if it is not
+  // a square and 0 if it is zero.
+  legendre(): -1 | 0 | 1 {
+    if (this.inner === 0n) {
+      return 0;
+    }
+    return this.pow((this.field.prime - 1n) / 2n).inner === 1n ? 1 : -1;
+  }
+
+  // Square root, computed with the Tonelli-Shanks algorithm.
+  // As in cairo-lang, the smallest of the two roots is returned.
+  sqrt(): Option<Felt> {
+    const symbol = this.legendre();
+    if (symbol === 0) {
+      return new Some(this);
+    }
+    if (symbol === -1) {
+      return new None();
+    }
+
+    // PRIME - 1 = q * 2^s, with q odd
+    let q = this.field.prime - 1n;
+    let s = 0n;
+    while ((q & 1n) === 0n) {
+      q >>= 1n;
+      s += 1n;
+    }
+
+    let z = new Felt(2n, this.field);
+    while (z.legendre() !== -1) {
+      z = z.add(new Felt(1n, this.field));
+    }
+
+    let m = s;
+    let c = z.pow(q);
+    let t = this.pow(q);
+    let r = this.pow((q + 1n) / 2n);
+    while (t.inner !== 1n) {
+      let i = 0n;
+      let t2i = t;
+      while (t2i.inner !== 1n) {
+        t2i = t2i.mul(t2i);
+        i += 1n;
+      }
+      const b = c.pow(1n << (m - i - 1n));
+      m = i;
+      c = b.mul(b);
+      t = t.mul(c);
+      r = r.mul(b);
+    }
+
+    return new Some(r.lt(r.neg()) ? r : r.neg());
   }
 
   eq(other: Felt): boolean {
-    return this.inner == other.inner;
+    return this.inner == other.inner && this.field.prime == other.field.prime;
+  }
+
+  // Comparisons are made on the canonical representatives in [0, PRIME).
+  lt(other: Felt): boolean {
+    return this.inner < other.inner;
+  }
+
+  le(other: Felt): boolean {
+    return this.inner <= other.inner;
+  }
+
+  gt(other: Felt): boolean {
+    return this.inner > other.inner;
+  }
+
+  ge(other: Felt): boolean {
+    return this.inner >= other.inner;
+  }
+
+  isZero(): boolean {
+    return this.inner === 0n;
+  }
+
+  toBigInt(): bigint {
+    return this.inner;
   }
 
   toString(): string {
@@ -52,4 +212,12 @@ export class Felt {
   toHexString(): string {
     return this.inner.toString(16);
   }
+
+  private assertSameField(other: Felt) {
+    if (this.field.prime !== other.field.prime) {
+      throw new FeltError(
+        'FeltError: cannot operate on felts of different fields'
+      );
+    }
+  }
 }
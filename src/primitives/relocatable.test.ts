@@ -1,5 +1,5 @@
 import { test, expect, describe } from 'bun:test';
-import { Felt } from './felt';
+import { Felt, Field } from './felt';
 import {
   Relocatable,
   OffsetUnderflow,
@@ -17,6 +17,13 @@ describe('Relocatable', () => {
       expect(relocatable.getSegmentIndex()).toEqual(0);
       expect(relocatable.getOffset()).toEqual(5);
     });
+
+    test('should initialize a relocatable of a temporary segment', () => {
+      const relocatable = new Relocatable(-1, 5);
+      expect(relocatable.getSegmentIndex()).toEqual(-1);
+      expect(relocatable.isTemporary()).toBeTrue();
+      expect(new Relocatable(0, 5).isTemporary()).toBeFalse();
+    });
   });
 
   describe('sub', () => {
@@ -96,6 +103,12 @@ describe('Relocatable', () => {
       expect(result.getOffset()).toEqual(10);
       expect(result.getSegmentIndex()).toEqual(0);
     });
+    test('should add a Felt of a field smaller than the offset', () => {
+      const field = new Field(7n);
+      const relocatable = new Relocatable(0, 10);
+      const result = relocatable.add(field.felt(2n)).unwrap();
+      expect(result.getOffset()).toEqual(5);
+    });
     test('should add a positive number correctly to a relocatable', () => {
       const relocatable = new Relocatable(0, 5);
       const add = UnsignedInteger.toUint32(5).unwrap();
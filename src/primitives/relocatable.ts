@@ -21,11 +21,13 @@ export const SegmentError = {
 };
 
 export class Relocatable {
-  private segmentIndex: Uint32;
+  // Negative for the temporary segments, which are relocated
+  // to a real segment by the relocation rules of the memory.
+  private segmentIndex: number;
   private offset: Uint32;
 
   constructor(segmentIndex: number, offset: number) {
-    const segmentIndexUint = UnsignedInteger.toUint32(segmentIndex);
+    const segmentIndexUint = UnsignedInteger.toUint32(Math.abs(segmentIndex));
     if (segmentIndexUint.isErr()) {
       throw segmentIndexUint.unwrapErr();
     }
@@ -33,22 +35,22 @@ export class Relocatable {
     if (offsetUint.isErr()) {
       throw offsetUint.unwrapErr();
     }
-    this.segmentIndex = segmentIndexUint.unwrap();
+    this.segmentIndex = segmentIndex;
     this.offset = offsetUint.unwrap();
   }
 
   add(other: MaybeRelocatable | Uint32): Result<Relocatable, VMError> {
     if (other instanceof Felt) {
-      const num = other.toUint32();
+      // The addition is done in the field, so that adding a "negative" felt,
+      // e.g. PRIME - 1, moves the offset backwards.
+      const num = other.field
+        .reduce(BigInt(this.getOffset()))
+        .add(other)
+        .toUint32();
       if (num.isErr()) {
-        return num;
-      }
-      if (this.getOffset() + num.unwrap() > Number.MAX_SAFE_INTEGER) {
         return new Err(OffsetOverflow);
       }
-      return new Ok(
-        new Relocatable(this.getSegmentIndex(), this.getOffset() + num.unwrap())
-      );
+      return new Ok(new Relocatable(this.getSegmentIndex(), num.unwrap()));
     }
 
     if (other instanceof Relocatable) {
@@ -93,18 +95,38 @@ export class Relocatable {
       );
     }
 
+    if (this.getOffset() < other) {
+      return new Err(OffsetUnderflow);
+    }
+
     return new Ok(
       new Relocatable(this.getSegmentIndex(), this.getOffset() - other)
     );
   }
 
-  getSegmentIndex(): Uint32 {
+  eq(other: MaybeRelocatable): boolean {
+    return (
+      other instanceof Relocatable &&
+      this.segmentIndex === other.segmentIndex &&
+      this.offset === other.offset
+    );
+  }
+
+  getSegmentIndex(): number {
     return this.segmentIndex;
   }
 
+  isTemporary(): boolean {
+    return this.segmentIndex < 0;
+  }
+
   getOffset(): Uint32 {
     return this.offset;
   }
+
+  toString(): string {
+    return `${this.segmentIndex}:${this.offset}`;
+  }
 }
 
 /**
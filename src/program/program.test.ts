@@ -0,0 +1,271 @@
+import { test, expect, describe } from 'bun:test';
+import * as fs from 'fs';
+import {
+  InvalidDataError,
+  InvalidJsonError,
+  InvalidPrimeError,
+  MissingFieldError,
+  PrimeMismatchError,
+  Program,
+} from './program';
+import { Felt, Field } from 'primitives/felt';
+import { None, Some } from 'option-pattern/option';
+
+const PROGRAM = {
+  builtins: ['output'],
+  data: ['0x40780017fff7fff', '0x1', '0x208b7fff7fff7ffe'],
+  debug_info: {
+    instruction_locations: {
+      '0': {
+        accessible_scopes: ['__main__', '__main__.main'],
+        inst: {
+          end_col: 15,
+          end_line: 3,
+          input_file: { filename: 'main.cairo' },
+          start_col: 5,
+          start_line: 3,
+        },
+      },
+    },
+  },
+  hints: {
+    '0': [
+      {
+        accessible_scopes: ['__main__', '__main__.main'],
+        code: 'memory[ap] = segments.add()',
+        flow_tracking_data: {
+          ap_tracking: { group: 0, offset: 0 },
+          reference_ids: { '__main__.main.x': 0 },
+        },
+      },
+    ],
+  },
+  identifiers: {
+    '__main__.main': { decorators: [], pc: 0, type: 'function' },
+    '__main__.main.x': {
+      cairo_type: 'felt',
+      full_name: '__main__.main.x',
+      references: [
+        {
+          ap_tracking_data: { group: 0, offset: 0 },
+          pc: 0,
+          value: '[cast(fp + (-3), felt*)]',
+        },
+      ],
+      type: 'reference',
+    },
+    '__main__.Point': {
+      full_name: '__main__.Point',
+      members: {
+        x: { cairo_type: 'felt', offset: 0 },
+        y: { cairo_type: 'felt', offset: 1 },
+      },
+      size: 2,
+      type: 'struct',
+    },
+  },
+  main_scope: '__main__',
+  prime: '0x800000000000011000000000000000000000000000000000000000000000001',
+  reference_manager: {
+    references: [
+      {
+        ap_tracking_data: { group: 0, offset: 0 },
+        pc: 0,
+        value: '[cast(fp + (-3), felt*)]',
+      },
+    ],
+  },
+};
+
+describe('Program', () => {
+  describe('fromJson', () => {
+    test('should parse the program data into felts', () => {
+      const program = Program.fromJson(JSON.stringify(PROGRAM)).unwrap();
+      expect(program.data).toEqual([
+        new Felt(0x40780017fff7fffn),
+        new Felt(1n),
+        new Felt(0x208b7fff7fff7ffen),
+      ]);
+      expect(program.prime).toEqual(Felt.PRIME);
+      expect(program.builtins).toEqual(['output']);
+    });
+
+    test('should find the main entrypoint', () => {
+      const program = Program.fromJson(JSON.stringify(PROGRAM)).unwrap();
+      expect(program.main).toEqual(new Some(0));
+    });
+
+    test('should return None for an unknown label', () => {
+      const program = Program.fromJson(JSON.stringify(PROGRAM)).unwrap();
+      expect(program.getLabel('__main__.unknown')).toEqual(new None());
+    });
+
+    test('should parse the hints by pc', () => {
+      const program = Program.fromJson(JSON.stringify(PROGRAM)).unwrap();
+      expect(program.hints.get(0)).toEqual([
+        {
+          code: 'memory[ap] = segments.add()',
+          accessibleScopes: ['__main__', '__main__.main'],
+          flowTrackingData: {
+            apTracking: { group: 0, offset: 0 },
+            referenceIds: { '__main__.main.x': 0 },
+          },
+        },
+      ]);
+    });
+
+    test('should parse the reference manager', () => {
+      const program = Program.fromJson(JSON.stringify(PROGRAM)).unwrap();
+      expect(program.references).toEqual([
+        {
+          apTrackingData: { group: 0, offset: 0 },
+          pc: new Some(0),
+          value: '[cast(fp + (-3), felt*)]',
+        },
+      ]);
+    });
+
+    test('should parse struct identifiers', () => {
+      const program = Program.fromJson(JSON.stringify(PROGRAM)).unwrap();
+      const point = program.identifiers.get('__main__.Point');
+      expect(point?.size).toEqual(2);
+      expect(point?.members?.y).toEqual({ cairoType: 'felt', offset: 1 });
+    });
+
+    test('should parse constants without losing precision', () => {
+      const json = JSON.stringify(PROGRAM).replace(
+        '"identifiers":{',
+        '"identifiers":{"__main__.BIG":{"type":"const","value":-106710729501573572985208420194530329073740042555888586719489},'
+      );
+      const program = Program.fromJson(json).unwrap();
+      expect(program.identifiers.get('__main__.BIG')?.value).toEqual(
+        -106710729501573572985208420194530329073740042555888586719489n
+      );
+    });
+
+    test('should parse the debug info', () => {
+      const program = Program.fromJson(JSON.stringify(PROGRAM)).unwrap();
+      const location = program.debugInfo.unwrap().instructionLocations.get(0)
+        ?.inst;
+      expect(location?.filename).toEqual('main.cairo');
+      expect(location?.startLine).toEqual(3);
+    });
+
+    test('should load a program compiled to a file', () => {
+      const json = fs.readFileSync('cairo_programs/fibonacci.json', 'utf8');
+      const program = Program.fromJson(json).unwrap();
+      expect(program.data.length).toEqual(20);
+      expect(program.main).toEqual(new Some(0));
+      expect(program.debugInfo).toEqual(new None());
+    });
+
+    test('should return an error for an invalid JSON', () => {
+      const result = Program.fromJson('{ data: ').unwrapErr();
+      expect(result).toEqual(InvalidJsonError);
+    });
+
+    test('should return an error if the data is missing', () => {
+      const { data, ...rest } = PROGRAM;
+      const result = Program.fromJson(JSON.stringify(rest)).unwrapErr();
+      expect(result).toEqual(MissingFieldError);
+    });
+
+    test('should return an error if the prime does not match', () => {
+      const result = Program.fromJson(
+        JSON.stringify({ ...PROGRAM, prime: '0x7' }),
+        Field.STARKNET
+      ).unwrapErr();
+      expect(result).toEqual(PrimeMismatchError);
+    });
+
+    test('should parse a program compiled for another prime', () => {
+      const goldilocks = new Field(0xffffffff00000001n);
+      const program = Program.fromJson(
+        JSON.stringify({ ...PROGRAM, prime: '0xffffffff00000001' }),
+        goldilocks
+      ).unwrap();
+      expect(program.prime).toEqual(goldilocks.prime);
+      expect(program.data[1]).toEqual(goldilocks.felt(1n));
+    });
+
+    test('should run in the field of the program prime by default', () => {
+      const program = Program.fromJson(
+        JSON.stringify({ ...PROGRAM, prime: '0xffffffff00000001' })
+      ).unwrap();
+      expect(program.prime).toEqual(0xffffffff00000001n);
+      expect(program.data[1]).toEqual(new Field(0xffffffff00000001n).felt(1n));
+      expect(Program.fromJson(JSON.stringify(PROGRAM)).unwrap().field).toBe(
+        Field.STARKNET
+      );
+    });
+
+    test('should return an error if the prime does not match the given field', () => {
+      const result = Program.fromJson(
+        JSON.stringify(PROGRAM),
+        new Field(0xffffffff00000001n)
+      ).unwrapErr();
+      expect(result).toEqual(PrimeMismatchError);
+    });
+
+    test('should return an error if a data word is above the prime', () => {
+      const result = Program.fromJson(
+        JSON.stringify({ ...PROGRAM, data: [PROGRAM.prime] })
+      ).unwrapErr();
+      expect(result).toEqual(InvalidDataError);
+    });
+
+    test('should return an error if the prime is not an integer', () => {
+      const result = Program.fromJson(
+        JSON.stringify({ ...PROGRAM, prime: '0xzz' })
+      ).unwrapErr();
+      expect(result).toEqual(InvalidPrimeError);
+    });
+
+    test('should return an error if the prime is below 2', () => {
+      const result = Program.fromJson(
+        JSON.stringify({ ...PROGRAM, prime: '0x1' })
+      ).unwrapErr();
+      expect(result).toEqual(InvalidPrimeError);
+    });
+
+    test('should return an error if a data word is not an integer', () => {
+      const result = Program.fromJson(
+        JSON.stringify({ ...PROGRAM, data: ['0xq'] })
+      ).unwrapErr();
+      expect(result).toEqual(InvalidDataError);
+    });
+
+    test('should return an error for a malformed hint', () => {
+      const result = Program.fromJson(
+        JSON.stringify({ ...PROGRAM, hints: { '0': [null] } })
+      ).unwrapErr();
+      expect(result).toEqual({
+        message: `${MissingFieldError.message}: hints.0.0`,
+      });
+    });
+
+    test('should return an error for a malformed reference', () => {
+      const result = Program.fromJson(
+        JSON.stringify({
+          ...PROGRAM,
+          reference_manager: { references: [{ pc: '0', value: '[ap]' }] },
+        })
+      ).unwrapErr();
+      expect(result).toEqual({
+        message: `${MissingFieldError.message}: reference_manager.references.0.pc`,
+      });
+    });
+
+    test('should return an error for a malformed identifier', () => {
+      const result = Program.fromJson(
+        JSON.stringify({
+          ...PROGRAM,
+          identifiers: { '__main__.N': { type: 'const', value: 'abc' } },
+        })
+      ).unwrapErr();
+      expect(result).toEqual({
+        message: `${MissingFieldError.message}: identifiers.__main__.N.value`,
+      });
+    });
+  });
+});
@@ -0,0 +1,507 @@
+// Model of a compiled Cairo 0 program, i.e. the JSON produced by
+// `cairo-compile`. See the Python definition for reference:
+// https://github.com/starkware-libs/cairo-lang/blob/master/src/starkware/cairo/lang/compiler/program.py
+
+import { Felt, Field } from 'primitives/felt';
+import { None, Option, Some } from 'option-pattern/option';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+
+export const InvalidJsonError = {
+  message: 'ProgramError: program is not a valid JSON object',
+};
+
+export const MissingFieldError = {
+  message: 'ProgramError: program is missing a mandatory field',
+};
+
+export const InvalidPrimeError = {
+  message: 'ProgramError: program prime must be an integer greater than 1',
+};
+
+export const PrimeMismatchError = {
+  message: 'ProgramError: program prime does not match the VM prime',
+};
+
+export const InvalidDataError = {
+  message:
+    'ProgramError: program data must be hex strings of felts below the prime',
+};
+
+export type ApTracking = {
+  group: number;
+  offset: number;
+};
+
+export type FlowTrackingData = {
+  apTracking: ApTracking;
+  referenceIds: Record<string, number>;
+};
+
+export type HintParams = {
+  code: string;
+  accessibleScopes: string[];
+  flowTrackingData: FlowTrackingData;
+};
+
+// A reference is the definition of a Cairo variable, e.g. `[cast(fp + (-3), felt*)]`,
+// valid from a given pc and relative to a given ap tracking.
+export type Reference = {
+  apTrackingData: ApTracking;
+  pc: Option<number>;
+  value: string;
+};
+
+export type Member = {
+  cairoType: string;
+  offset: number;
+};
+
+// Identifiers are labels, functions, constants, structs, references, etc.
+// Only the fields matching the identifier type are set.
+export type Identifier = {
+  type: string;
+  pc?: number;
+  value?: bigint;
+  destination?: string;
+  cairoType?: string;
+  fullName?: string;
+  members?: Record<string, Member>;
+  size?: number;
+  references?: Reference[];
+};
+
+export type Location = {
+  startLine: number;
+  startCol: number;
+  endLine: number;
+  endCol: number;
+  filename: string;
+};
+
+export type InstructionLocation = {
+  inst: Location;
+  accessibleScopes: string[];
+};
+
+export type DebugInfo = {
+  instructionLocations: Map<number, InstructionLocation>;
+};
+
+export class Program {
+  constructor(
+    readonly field: Field,
+    readonly data: Felt[],
+    readonly builtins: string[],
+    readonly mainScope: string,
+    readonly identifiers: Map<string, Identifier>,
+    readonly hints: Map<number, HintParams[]>,
+    readonly references: Reference[],
+    readonly debugInfo: Option<DebugInfo>
+  ) {}
+
+  get prime(): bigint {
+    return this.field.prime;
+  }
+
+  // The offset of the `main` function in the program segment, if any.
+  get main(): Option<number> {
+    return this.getLabel(`${this.mainScope}.main`);
+  }
+
+  // The pc of a label or function identifier, e.g. `__main__.main`.
+  getLabel(name: string): Option<number> {
+    const identifier = this.identifiers.get(name);
+    if (identifier === undefined || identifier.pc === undefined) {
+      return new None();
+    }
+    return new Some(identifier.pc);
+  }
+
+  // Parse a compiled program. The VM runs on the field of its prime,
+  // which must match the given field, if any.
+  static fromJson(json: string, expected?: Field): Result<Program, VMError> {
+    let raw: unknown;
+    try {
+      // Constant values are integers that may not fit in a double:
+      // quote them before parsing to avoid any precision loss.
+      raw = JSON.parse(json.replace(/"value":\s*(-?\d+)/g, '"value": "$1"'));
+    } catch {
+      return new Err(InvalidJsonError);
+    }
+    if (!isObject(raw)) {
+      return new Err(InvalidJsonError);
+    }
+
+    if (
+      typeof raw.prime !== 'string' ||
+      !Array.isArray(raw.data) ||
+      !isStringArray(raw.builtins)
+    ) {
+      return new Err(MissingFieldError);
+    }
+
+    const prime = parseBigInt(raw.prime);
+    if (prime.isNone() || prime.unwrap() < 2n) {
+      return new Err(InvalidPrimeError);
+    }
+    if (expected !== undefined && prime.unwrap() !== expected.prime) {
+      return new Err(PrimeMismatchError);
+    }
+    const field =
+      expected ??
+      (prime.unwrap() === Field.STARKNET.prime
+        ? Field.STARKNET
+        : new Field(prime.unwrap()));
+
+    const data: Felt[] = [];
+    for (const word of raw.data) {
+      if (typeof word !== 'string' || !word.startsWith('0x')) {
+        return new Err(InvalidDataError);
+      }
+      const value = parseBigInt(word);
+      if (value.isNone() || value.unwrap() >= field.prime) {
+        return new Err(InvalidDataError);
+      }
+      data.push(field.felt(value.unwrap()));
+    }
+
+    const mainScope = raw.main_scope ?? '__main__';
+    if (typeof mainScope !== 'string') {
+      return invalidField('main_scope');
+    }
+
+    const identifiers = new Map<string, Identifier>();
+    const rawIdentifiers = raw.identifiers ?? {};
+    if (!isObject(rawIdentifiers)) {
+      return invalidField('identifiers');
+    }
+    for (const [name, rawIdentifier] of Object.entries(rawIdentifiers)) {
+      const identifier = parseIdentifier(rawIdentifier, `identifiers.${name}`);
+      if (identifier.isErr()) {
+        return identifier;
+      }
+      identifiers.set(name, identifier.unwrap());
+    }
+
+    const hints = new Map<number, HintParams[]>();
+    const rawHints = raw.hints ?? {};
+    if (!isObject(rawHints)) {
+      return invalidField('hints');
+    }
+    for (const [pc, pcHints] of Object.entries(rawHints)) {
+      if (!/^\d+$/.test(pc) || !Array.isArray(pcHints)) {
+        return invalidField(`hints.${pc}`);
+      }
+      const parsed: HintParams[] = [];
+      for (const [index, rawHint] of pcHints.entries()) {
+        const hint = parseHint(rawHint, `hints.${pc}.${index}`);
+        if (hint.isErr()) {
+          return hint;
+        }
+        parsed.push(hint.unwrap());
+      }
+      hints.set(Number(pc), parsed);
+    }
+
+    const referenceManager = raw.reference_manager ?? {};
+    if (!isObject(referenceManager)) {
+      return invalidField('reference_manager');
+    }
+    const references = parseReferences(
+      referenceManager.references ?? [],
+      'reference_manager.references'
+    );
+    if (references.isErr()) {
+      return references;
+    }
+
+    const debugInfo = parseDebugInfo(raw.debug_info);
+    if (debugInfo.isErr()) {
+      return debugInfo;
+    }
+
+    return new Ok(
+      new Program(
+        field,
+        data,
+        raw.builtins,
+        mainScope,
+        identifiers,
+        hints,
+        references.unwrap(),
+        debugInfo.unwrap()
+      )
+    );
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
+}
+
+function parseBigInt(value: string): Option<bigint> {
+  try {
+    return new Some(BigInt(value));
+  } catch {
+    return new None();
+  }
+}
+
+// A field of the program, given by its path, e.g. `hints.0.0.code`,
+// is missing or does not have the expected type.
+function invalidField(path: string): Err<VMError> {
+  return new Err({ message: `${MissingFieldError.message}: ${path}` });
+}
+
+// Accessible scopes default to none.
+function parseScopes(raw: unknown, path: string): Result<string[], VMError> {
+  const scopes = raw ?? [];
+  if (!isStringArray(scopes)) {
+    return invalidField(path);
+  }
+  return new Ok(scopes);
+}
+
+function parseApTracking(
+  raw: unknown,
+  path: string
+): Result<ApTracking, VMError> {
+  const apTracking = raw ?? {};
+  if (!isObject(apTracking)) {
+    return invalidField(path);
+  }
+  const { group = 0, offset = 0 } = apTracking;
+  if (typeof group !== 'number' || typeof offset !== 'number') {
+    return invalidField(path);
+  }
+  return new Ok({ group, offset });
+}
+
+function parseReference(
+  raw: unknown,
+  path: string
+): Result<Reference, VMError> {
+  if (!isObject(raw) || typeof raw.value !== 'string') {
+    return invalidField(path);
+  }
+  const apTracking = parseApTracking(
+    raw.ap_tracking_data,
+    `${path}.ap_tracking_data`
+  );
+  if (apTracking.isErr()) {
+    return apTracking;
+  }
+  let pc: Option<number> = new None();
+  if (typeof raw.pc === 'number') {
+    pc = new Some(raw.pc);
+  } else if (raw.pc !== undefined && raw.pc !== null) {
+    return invalidField(`${path}.pc`);
+  }
+  return new Ok({ apTrackingData: apTracking.unwrap(), pc, value: raw.value });
+}
+
+function parseReferences(
+  raw: unknown,
+  path: string
+): Result<Reference[], VMError> {
+  if (!Array.isArray(raw)) {
+    return invalidField(path);
+  }
+  const references: Reference[] = [];
+  for (const [index, rawReference] of raw.entries()) {
+    const reference = parseReference(rawReference, `${path}.${index}`);
+    if (reference.isErr()) {
+      return reference;
+    }
+    references.push(reference.unwrap());
+  }
+  return new Ok(references);
+}
+
+function parseHint(raw: unknown, path: string): Result<HintParams, VMError> {
+  if (!isObject(raw) || typeof raw.code !== 'string') {
+    return invalidField(path);
+  }
+  const accessibleScopes = parseScopes(
+    raw.accessible_scopes,
+    `${path}.accessible_scopes`
+  );
+  if (accessibleScopes.isErr()) {
+    return accessibleScopes;
+  }
+  const flowTrackingData = raw.flow_tracking_data ?? {};
+  if (!isObject(flowTrackingData)) {
+    return invalidField(`${path}.flow_tracking_data`);
+  }
+  const apTracking = parseApTracking(
+    flowTrackingData.ap_tracking,
+    `${path}.flow_tracking_data.ap_tracking`
+  );
+  if (apTracking.isErr()) {
+    return apTracking;
+  }
+  const referenceIds = flowTrackingData.reference_ids ?? {};
+  if (
+    !isObject(referenceIds) ||
+    !Object.values(referenceIds).every((id) => typeof id === 'number')
+  ) {
+    return invalidField(`${path}.flow_tracking_data.reference_ids`);
+  }
+  return new Ok({
+    code: raw.code,
+    accessibleScopes: accessibleScopes.unwrap(),
+    flowTrackingData: {
+      apTracking: apTracking.unwrap(),
+      referenceIds: referenceIds as Record<string, number>,
+    },
+  });
+}
+
+function parseMember(raw: unknown, path: string): Result<Member, VMError> {
+  if (
+    !isObject(raw) ||
+    typeof raw.cairo_type !== 'string' ||
+    typeof raw.offset !== 'number'
+  ) {
+    return invalidField(path);
+  }
+  return new Ok({ cairoType: raw.cairo_type, offset: raw.offset });
+}
+
+function parseIdentifier(
+  raw: unknown,
+  path: string
+): Result<Identifier, VMError> {
+  if (!isObject(raw) || typeof raw.type !== 'string') {
+    return invalidField(path);
+  }
+  const identifier: Identifier = { type: raw.type };
+
+  const { pc, value, destination, cairo_type, full_name, size } = raw;
+  if (pc !== undefined) {
+    if (typeof pc !== 'number') return invalidField(`${path}.pc`);
+    identifier.pc = pc;
+  }
+  if (value !== undefined) {
+    // Integers are quoted before parsing the JSON.
+    const parsed = typeof value === 'string' ? parseBigInt(value) : new None();
+    if (parsed.isNone()) return invalidField(`${path}.value`);
+    identifier.value = parsed.unwrap();
+  }
+  if (destination !== undefined) {
+    if (typeof destination !== 'string') {
+      return invalidField(`${path}.destination`);
+    }
+    identifier.destination = destination;
+  }
+  if (cairo_type !== undefined) {
+    if (typeof cairo_type !== 'string') {
+      return invalidField(`${path}.cairo_type`);
+    }
+    identifier.cairoType = cairo_type;
+  }
+  if (full_name !== undefined) {
+    if (typeof full_name !== 'string') {
+      return invalidField(`${path}.full_name`);
+    }
+    identifier.fullName = full_name;
+  }
+  if (size !== undefined) {
+    if (typeof size !== 'number') return invalidField(`${path}.size`);
+    identifier.size = size;
+  }
+  if (raw.members !== undefined) {
+    if (!isObject(raw.members)) return invalidField(`${path}.members`);
+    identifier.members = {};
+    for (const [name, rawMember] of Object.entries(raw.members)) {
+      const member = parseMember(rawMember, `${path}.members.${name}`);
+      if (member.isErr()) {
+        return member;
+      }
+      identifier.members[name] = member.unwrap();
+    }
+  }
+  if (raw.references !== undefined) {
+    const references = parseReferences(raw.references, `${path}.references`);
+    if (references.isErr()) {
+      return references;
+    }
+    identifier.references = references.unwrap();
+  }
+  return new Ok(identifier);
+}
+
+function parseLocation(
+  raw: unknown,
+  path: string
+): Result<InstructionLocation, VMError> {
+  if (!isObject(raw) || !isObject(raw.inst)) {
+    return invalidField(path);
+  }
+  const { start_line, start_col, end_line, end_col, input_file } = raw.inst;
+  if (
+    typeof start_line !== 'number' ||
+    typeof start_col !== 'number' ||
+    typeof end_line !== 'number' ||
+    typeof end_col !== 'number'
+  ) {
+    return invalidField(`${path}.inst`);
+  }
+  const filename = isObject(input_file) ? input_file.filename ?? '' : '';
+  if (typeof filename !== 'string') {
+    return invalidField(`${path}.inst.input_file`);
+  }
+  const accessibleScopes = parseScopes(
+    raw.accessible_scopes,
+    `${path}.accessible_scopes`
+  );
+  if (accessibleScopes.isErr()) {
+    return accessibleScopes;
+  }
+  return new Ok({
+    inst: {
+      startLine: start_line,
+      startCol: start_col,
+      endLine: end_line,
+      endCol: end_col,
+      filename,
+    },
+    accessibleScopes: accessibleScopes.unwrap(),
+  });
+}
+
+// The debug info is optional, e.g. for programs compiled with `--no_debug_info`.
+function parseDebugInfo(raw: unknown): Result<Option<DebugInfo>, VMError> {
+  if (raw === undefined || raw === null) {
+    return new Ok(new None());
+  }
+  if (!isObject(raw)) {
+    return invalidField('debug_info');
+  }
+  if (raw.instruction_locations === undefined) {
+    return new Ok(new None());
+  }
+  if (!isObject(raw.instruction_locations)) {
+    return invalidField('debug_info.instruction_locations');
+  }
+  const instructionLocations = new Map<number, InstructionLocation>();
+  for (const [pc, rawLocation] of Object.entries(raw.instruction_locations)) {
+    const location = parseLocation(
+      rawLocation,
+      `debug_info.instruction_locations.${pc}`
+    );
+    if (location.isErr()) {
+      return location;
+    }
+    instructionLocations.set(Number(pc), location.unwrap());
+  }
+  return new Ok(new Some({ instructionLocations }));
+}
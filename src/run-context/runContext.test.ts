@@ -1,5 +1,9 @@
 import { test, expect, describe } from 'bun:test';
-import { RunContext } from './runContext';
+import {
+  ImmediateOffsetError,
+  Op0NotRelocatable,
+  RunContext,
+} from './runContext';
 import { UnsignedInteger } from 'primitives/uint';
 import {
   ApUpdate,
@@ -12,6 +16,9 @@ import {
   ResLogic,
 } from 'vm/instruction';
 import { SignedInteger16 } from 'primitives/int';
+import { Relocatable } from 'primitives/relocatable';
+import { Felt } from 'primitives/felt';
+import { None, Some } from 'option-pattern/option';
 
 describe('RunContext', () => {
   describe('incrementPc', () => {
@@ -74,4 +81,86 @@ describe('RunContext', () => {
       expect(dstAddr.unwrap().getOffset()).toEqual(7);
     });
   });
+
+  describe('computeOp0Address', () => {
+    test('should compute op0 addr for fp register with a negative offset', () => {
+      const instruction: Instruction = {
+        offDst: SignedInteger16.toInt16(1),
+        offOp0: SignedInteger16.toInt16(-2),
+        offOp1: SignedInteger16.toInt16(3),
+        dstReg: RegisterFlag.AP,
+        op0Reg: RegisterFlag.FP,
+        op1Src: Op1Src.AP,
+        resLogic: ResLogic.Add,
+        pcUpdate: PcUpdate.Regular,
+        apUpdate: ApUpdate.Regular,
+        fpUpdate: FpUpdate.Regular,
+        opcode: Opcode.NoOp,
+      };
+
+      const runContext = new RunContext(4, 5, 6);
+
+      const op0Addr = runContext.computeOp0Address(instruction);
+
+      expect(op0Addr.unwrap().getSegmentIndex()).toEqual(1);
+      expect(op0Addr.unwrap().getOffset()).toEqual(4);
+    });
+  });
+
+  describe('computeOp1Address', () => {
+    const instruction: Instruction = {
+      offDst: SignedInteger16.toInt16(1),
+      offOp0: SignedInteger16.toInt16(2),
+      offOp1: SignedInteger16.toInt16(1),
+      dstReg: RegisterFlag.AP,
+      op0Reg: RegisterFlag.FP,
+      op1Src: Op1Src.Imm,
+      resLogic: ResLogic.Add,
+      pcUpdate: PcUpdate.Regular,
+      apUpdate: ApUpdate.Regular,
+      fpUpdate: FpUpdate.Regular,
+      opcode: Opcode.NoOp,
+    };
+
+    test('should compute op1 addr for an immediate', () => {
+      const runContext = new RunContext(4, 5, 6);
+
+      const op1Addr = runContext.computeOp1Address(instruction, new None());
+
+      expect(op1Addr.unwrap()).toEqual(new Relocatable(0, 5));
+    });
+
+    test('should compute op1 addr from op0', () => {
+      const runContext = new RunContext(4, 5, 6);
+
+      const op1Addr = runContext.computeOp1Address(
+        { ...instruction, op1Src: Op1Src.Op0 },
+        new Some(new Relocatable(2, 3))
+      );
+
+      expect(op1Addr.unwrap()).toEqual(new Relocatable(2, 4));
+    });
+
+    test('should return an error if op0 is not a relocatable', () => {
+      const runContext = new RunContext(4, 5, 6);
+
+      const op1Addr = runContext.computeOp1Address(
+        { ...instruction, op1Src: Op1Src.Op0 },
+        new Some(new Felt(3n))
+      );
+
+      expect(op1Addr.unwrapErr()).toEqual(Op0NotRelocatable);
+    });
+
+    test('should return an error if the immediate offset is not 1', () => {
+      const runContext = new RunContext(4, 5, 6);
+
+      const op1Addr = runContext.computeOp1Address(
+        { ...instruction, offOp1: SignedInteger16.toInt16(2) },
+        new None()
+      );
+
+      expect(op1Addr.unwrapErr()).toEqual(ImmediateOffsetError);
+    });
+  });
 });
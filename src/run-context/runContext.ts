@@ -2,19 +2,38 @@ import {
   ProgramCounter,
   Relocatable,
   MemoryPointer,
+  MaybeRelocatable,
 } from 'primitives/relocatable';
+import { Int16 } from 'primitives/int';
 import { Uint32, UnsignedInteger } from 'primitives/uint';
 import { Result, Err, VMError, Ok } from 'result-pattern/result';
-import { Instruction, RegisterFlag } from 'vm/instruction';
+import { Option } from 'option-pattern/option';
+import { Instruction, Op1Src, RegisterFlag } from 'vm/instruction';
 
 export const PCError = {
   message: 'RunContextError: cannot increment PC',
 };
 
+export const Op0NotRelocatable = {
+  message: 'RunContextError: op0 must be a relocatable when op1 source is op0',
+};
+
+export const Op0Undefined = {
+  message: 'RunContextError: op0 is undefined while op1 source is op0',
+};
+
+export const ImmediateOffsetError = {
+  message:
+    'RunContextError: op1 offset must be 1 when op1 source is an immediate',
+};
+
 export class RunContext {
-  private pc: ProgramCounter;
-  private ap: MemoryPointer;
-  private fp: MemoryPointer;
+  // The registers are initialized as a ProgramCounter and two MemoryPointers,
+  // but they may point to other segments during a run, e.g. the end pointer
+  // or the return fp.
+  private pc: Relocatable;
+  private ap: Relocatable;
+  private fp: Relocatable;
 
   static default() {
     return new RunContext(0, 0, 0);
@@ -39,28 +58,93 @@ export class RunContext {
     return this.pc;
   }
 
-  computeDstAddress(instruction: Instruction): Result<Relocatable, VMError> {
-    const offsetIsNegative = instruction.offDst < 0 ? 1 : 0;
+  getAp() {
+    return this.ap;
+  }
 
-    const offDst = UnsignedInteger.toUint32(
-      -1 * offsetIsNegative * instruction.offDst +
-        (1 - offsetIsNegative) * instruction.offDst
-    );
+  getFp() {
+    return this.fp;
+  }
 
-    if (offDst.isErr()) {
-      return offDst;
-    }
+  setPc(pc: Relocatable) {
+    this.pc = pc;
+  }
+
+  setAp(ap: Relocatable) {
+    this.ap = ap;
+  }
 
+  setFp(fp: Relocatable) {
+    this.fp = fp;
+  }
+
+  computeDstAddress(instruction: Instruction): Result<Relocatable, VMError> {
     switch (instruction.dstReg) {
       case RegisterFlag.AP:
-        return offsetIsNegative
-          ? this.ap.sub(offDst.unwrap())
-          : this.ap.add(offDst.unwrap());
+        return this.applyOffset(this.ap, instruction.offDst);
+
+      case RegisterFlag.FP:
+        return this.applyOffset(this.fp, instruction.offDst);
+    }
+  }
+
+  computeOp0Address(instruction: Instruction): Result<Relocatable, VMError> {
+    switch (instruction.op0Reg) {
+      case RegisterFlag.AP:
+        return this.applyOffset(this.ap, instruction.offOp0);
 
       case RegisterFlag.FP:
-        return offsetIsNegative
-          ? this.fp.sub(offDst.unwrap())
-          : this.fp.add(offDst.unwrap());
+        return this.applyOffset(this.fp, instruction.offOp0);
+    }
+  }
+
+  // The address of op1 depends on its source, which can be op0 itself,
+  // pc (immediate value), fp or ap.
+  computeOp1Address(
+    instruction: Instruction,
+    op0: Option<MaybeRelocatable>
+  ): Result<Relocatable, VMError> {
+    switch (instruction.op1Src) {
+      case Op1Src.Op0:
+        if (op0.isNone()) {
+          return new Err(Op0Undefined);
+        }
+        const base = op0.unwrap();
+        if (!(base instanceof Relocatable)) {
+          return new Err(Op0NotRelocatable);
+        }
+        return this.applyOffset(base, instruction.offOp1);
+
+      case Op1Src.Imm:
+        if (instruction.offOp1 !== 1) {
+          return new Err(ImmediateOffsetError);
+        }
+        return this.applyOffset(this.pc, instruction.offOp1);
+
+      case Op1Src.FP:
+        return this.applyOffset(this.fp, instruction.offOp1);
+
+      case Op1Src.AP:
+        return this.applyOffset(this.ap, instruction.offOp1);
     }
   }
+
+  private applyOffset(
+    register: Relocatable,
+    offset: Int16
+  ): Result<Relocatable, VMError> {
+    const offsetIsNegative = offset < 0 ? 1 : 0;
+
+    const absOffset = UnsignedInteger.toUint32(
+      -1 * offsetIsNegative * offset + (1 - offsetIsNegative) * offset
+    );
+
+    if (absOffset.isErr()) {
+      return absOffset;
+    }
+
+    return offsetIsNegative
+      ? register.sub(absOffset.unwrap())
+      : register.add(absOffset.unwrap());
+  }
 }
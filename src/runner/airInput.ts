@@ -0,0 +1,35 @@
+// Inputs of the AIR of a proof-mode run, in the JSON format of
+// `cairo-run --air_public_input --air_private_input`, consumed by the Stone prover.
+
+import { PrivateInput } from 'builtins/builtin';
+
+// First and last flat addresses of a segment.
+export type MemorySegmentAddresses = {
+  begin_addr: number;
+  stop_ptr: number;
+};
+
+// A cell of the public memory, with its value as a hexadecimal string.
+export type PublicMemoryEntry = {
+  address: number;
+  value: string;
+  page: number;
+};
+
+export type AirPublicInput = {
+  layout: string;
+  rc_min: number;
+  rc_max: number;
+  n_steps: number;
+  // The program, execution and builtin segments, by name.
+  memory_segments: Record<string, MemorySegmentAddresses>;
+  public_memory: PublicMemoryEntry[];
+};
+
+// The paths of the relocated trace and memory files and the inputs of the
+// builtin instances, by builtin name.
+export type AirPrivateInput = {
+  trace_path: string;
+  memory_path: string;
+  [builtin: string]: string | PrivateInput[];
+};
@@ -0,0 +1,551 @@
+import { test, expect, describe } from 'bun:test';
+import * as fs from 'fs';
+import {
+  BuiltinLimitError,
+  BuiltinNotInLayoutError,
+  BuiltinsOrderError,
+  CairoRunner,
+  EndOfProgramError,
+  MissingMainError,
+  MissingStartError,
+  NotInProofModeError,
+  StepLimitError,
+  WriteFileError,
+} from './cairoRunner';
+import { LAYOUTS } from './layout';
+import { InsufficientStepsError } from 'builtins/builtin';
+import { RangeCheckOutOfBoundsError } from 'builtins/rangeCheck';
+import { UnknownBuiltinError } from 'builtins/builtins';
+import { UnexitedScopeError } from 'hints/executionScopes';
+import { ALLOC } from 'hints/alloc';
+import { Program } from 'program/program';
+import { Relocatable } from 'primitives/relocatable';
+import { Uint32, UnsignedInteger } from 'primitives/uint';
+import { Felt, Field } from 'primitives/felt';
+import { DivOutOfRangeError } from 'hints/math';
+
+const FIBONACCI = Program.fromJson(
+  fs.readFileSync('cairo_programs/fibonacci.json', 'utf8')
+).unwrap();
+
+const OUTPUT = Program.fromJson(
+  fs.readFileSync('cairo_programs/output.json', 'utf8')
+).unwrap();
+
+const PEDERSEN = Program.fromJson(
+  fs.readFileSync('cairo_programs/pedersen.json', 'utf8')
+).unwrap();
+
+const HINTS = Program.fromJson(
+  fs.readFileSync('cairo_programs/hints.json', 'utf8')
+).unwrap();
+
+const RANGE_CHECK = Program.fromJson(
+  fs.readFileSync('cairo_programs/range_check.json', 'utf8')
+).unwrap();
+
+const PROOF_MODE = Program.fromJson(
+  fs.readFileSync('cairo_programs/proof_mode.json', 'utf8')
+).unwrap();
+
+// Copy of a program with other data or builtins.
+const withProgram = (
+  program: Program,
+  data: Felt[] = program.data,
+  builtins: string[] = program.builtins
+) =>
+  new Program(
+    program.field,
+    data,
+    builtins,
+    program.mainScope,
+    program.identifiers,
+    program.hints,
+    program.references,
+    program.debugInfo
+  );
+
+describe('CairoRunner', () => {
+  describe('segments', () => {
+    test('should create the program, execution, return fp and end segments', () => {
+      const runner = new CairoRunner(FIBONACCI);
+      runner.initialize().unwrap();
+      expect(runner.vm.segments.memory.getNumSegments()).toEqual(4);
+      expect(runner.getExecutionBase()).toEqual(new Relocatable(1, 0));
+      expect(runner.getFinalPc()).toEqual(new Relocatable(3, 0));
+    });
+
+    test('should create the builtin segments before the return segments', () => {
+      const runner = new CairoRunner(OUTPUT);
+      runner.initialize().unwrap();
+      expect(runner.vm.builtins.map((builtin) => builtin.name)).toEqual([
+        'output',
+      ]);
+      expect(runner.vm.builtins[0].getBase()).toEqual(new Relocatable(2, 0));
+      expect(runner.getFinalPc()).toEqual(new Relocatable(4, 0));
+    });
+
+    test('should fail if the program declares an unknown builtin', () => {
+      const runner = new CairoRunner(
+        withProgram(OUTPUT, OUTPUT.data, ['unknown'])
+      );
+      expect(runner.initialize().unwrapErr()).toEqual({
+        message: `${UnknownBuiltinError.message}: unknown`,
+      });
+    });
+
+    test('should fail if a builtin is not in the layout', () => {
+      const runner = new CairoRunner(OUTPUT, { layout: LAYOUTS.plain });
+      expect(runner.initialize().unwrapErr()).toEqual({
+        message: `${BuiltinNotInLayoutError.message} plain: output`,
+      });
+    });
+
+    test('should fail if the builtins are not in the order of the layout', () => {
+      const program = withProgram(OUTPUT, OUTPUT.data, ['pedersen', 'output']);
+      const runner = new CairoRunner(program, { layout: LAYOUTS.small });
+      expect(runner.initialize().unwrapErr()).toEqual(BuiltinsOrderError);
+    });
+
+    test('should create all the builtins of the layout in proof mode', () => {
+      const runner = new CairoRunner(PROOF_MODE, {
+        layout: LAYOUTS.small,
+        proofMode: true,
+      });
+      runner.initialize().unwrap();
+      expect(
+        runner.vm.builtins.map(({ name, included }) => [name, included])
+      ).toEqual([
+        ['output', true],
+        ['pedersen', false],
+        ['range_check', false],
+        ['ecdsa', false],
+      ]);
+      expect(runner.vm.segments.memory.getNumSegments()).toEqual(6);
+    });
+  });
+
+  describe('initialize', () => {
+    test('should load the program and the initial stack', () => {
+      const runner = new CairoRunner(FIBONACCI);
+      runner.initialize().unwrap();
+
+      expect(
+        runner.vm.segments.getSegmentSize(UnsignedInteger.toUint32(0).unwrap())
+      ).toEqual(20);
+      expect(
+        runner.vm.segments.getSegmentSize(UnsignedInteger.toUint32(1).unwrap())
+      ).toEqual(2);
+    });
+
+    test('should set the registers at the beginning of main', () => {
+      const runner = new CairoRunner(FIBONACCI);
+      runner.initialize().unwrap();
+      const { pc, ap, fp, steps } = runner.getState();
+
+      expect(pc).toEqual(new Relocatable(0, 0));
+      expect(ap).toEqual(new Relocatable(1, 2));
+      expect(fp).toEqual(new Relocatable(1, 2));
+      expect(steps).toEqual(UnsignedInteger.ZERO_UINT64);
+    });
+
+    test('should return an error if the program has no main', () => {
+      const program = new Program(
+        FIBONACCI.field,
+        FIBONACCI.data,
+        FIBONACCI.builtins,
+        '__other__',
+        FIBONACCI.identifiers,
+        FIBONACCI.hints,
+        FIBONACCI.references,
+        FIBONACCI.debugInfo
+      );
+      const runner = new CairoRunner(program);
+      expect(runner.initialize().unwrapErr()).toEqual(MissingMainError);
+    });
+
+    test('should start at __start__ after a dummy frame in proof mode', () => {
+      const runner = new CairoRunner(PROOF_MODE, {
+        layout: LAYOUTS.small,
+        proofMode: true,
+      });
+      runner.initialize().unwrap();
+      const { pc, ap, fp } = runner.getState();
+
+      expect(pc).toEqual(new Relocatable(0, 0));
+      expect(ap).toEqual(new Relocatable(1, 2));
+      expect(fp).toEqual(new Relocatable(1, 2));
+      expect(runner.getFinalPc()).toEqual(new Relocatable(0, 4));
+      expect(
+        runner.vm.segments.memory.get(new Relocatable(1, 0)).unwrap()
+      ).toEqual(new Relocatable(1, 2));
+    });
+
+    test('should return an error if the program has no __start__ in proof mode', () => {
+      const runner = new CairoRunner(FIBONACCI, { proofMode: true });
+      expect(runner.initialize().unwrapErr()).toEqual(MissingStartError);
+    });
+  });
+
+  describe('runUntilPc', () => {
+    test('should not step if pc is already the final pc', () => {
+      const runner = new CairoRunner(FIBONACCI);
+      runner.initialize().unwrap();
+      runner.runUntilPc(new Relocatable(0, 0)).unwrap();
+
+      expect(runner.getState().steps).toEqual(UnsignedInteger.ZERO_UINT64);
+    });
+  });
+
+  describe('run', () => {
+    test('should run fibonacci until the end pointer', () => {
+      const runner = new CairoRunner(FIBONACCI);
+      runner.initialize().unwrap();
+      runner.run().unwrap();
+      const { pc, ap, fp } = runner.getState();
+
+      expect(pc).toEqual(runner.getFinalPc());
+      expect(fp).toEqual(new Relocatable(2, 0));
+      const result = runner.vm.segments.memory.get(
+        ap.sub(1 as Uint32).unwrap()
+      );
+      expect(result.unwrap()).toEqual(new Felt(144n));
+    });
+
+    test('should pass the builtin bases to main and collect the output', () => {
+      const runner = new CairoRunner(OUTPUT);
+      runner.initialize().unwrap();
+      expect(
+        runner.vm.segments.memory.get(new Relocatable(1, 0)).unwrap()
+      ).toEqual(runner.vm.builtins[0].getBase());
+      runner.run().unwrap();
+
+      expect(runner.getOutput().unwrap()).toEqual([new Felt(42n)]);
+    });
+
+    test('should deduce the hash of the pedersen builtin', () => {
+      const runner = new CairoRunner(PEDERSEN);
+      runner.initialize().unwrap();
+      runner.run().unwrap();
+      const { ap } = runner.getState();
+
+      expect(
+        runner.vm.segments.memory.get(ap.sub(2 as Uint32).unwrap()).unwrap()
+      ).toEqual(
+        new Felt(
+          0x30e480bed5fe53fa909cc0f8c4d99b8f9f2c016be4c41e13a4848797979c662n
+        )
+      );
+    });
+
+    test('should execute the hints before their instruction', () => {
+      const runner = new CairoRunner(HINTS);
+      runner.initialize().unwrap();
+      runner.run().unwrap();
+      const memory = runner.vm.segments.memory;
+
+      // alloc: the new segment comes after the end segment.
+      expect(memory.get(new Relocatable(1, 2)).unwrap()).toEqual(
+        new Relocatable(4, 0)
+      );
+      // unsigned_div_rem(17, 5).
+      expect(memory.get(new Relocatable(1, 5)).unwrap()).toEqual(new Felt(3n));
+      expect(memory.get(new Relocatable(1, 6)).unwrap()).toEqual(new Felt(2n));
+    });
+
+    test('should execute the hints in the field of the program', () => {
+      const field = new Field(2n ** 255n - 19n);
+      const json = fs
+        .readFileSync('cairo_programs/hints.json', 'utf8')
+        .replace(
+          /"prime": "0x\w+"/,
+          `"prime": "0x${field.prime.toString(16)}"`
+        );
+      const runner = new CairoRunner(Program.fromJson(json, field).unwrap());
+      runner.initialize().unwrap();
+      runner.run().unwrap();
+      runner.relocate().unwrap();
+      const memory = runner.vm.segments.memory;
+
+      expect(memory.get(new Relocatable(1, 5)).unwrap()).toEqual(
+        field.felt(3n)
+      );
+      expect(memory.get(new Relocatable(1, 6)).unwrap()).toEqual(
+        field.felt(2n)
+      );
+      // Relocated addresses are felts of the field as well.
+      for (const value of runner.getRelocatedMemory().values()) {
+        expect(value.field).toBe(field);
+      }
+    });
+
+    test('should return an error if a hint does not fit in the field', () => {
+      // PRIME // 2**128 is 0 in the Goldilocks field.
+      const field = new Field(0xffffffff00000001n);
+      const json = fs
+        .readFileSync('cairo_programs/hints.json', 'utf8')
+        .replace(
+          /"prime": "0x\w+"/,
+          `"prime": "0x${field.prime.toString(16)}"`
+        );
+      const runner = new CairoRunner(Program.fromJson(json, field).unwrap());
+      runner.initialize().unwrap();
+      expect(runner.run().unwrapErr()).toEqual(DivOutOfRangeError);
+    });
+
+    test('should return an error if a hint scope is not exited', () => {
+      const runner = new CairoRunner(HINTS);
+      runner.vm.hintProcessor.registerHint(ALLOC, (context) => {
+        context.scopes.enterScope();
+        return context.setMemory(context.getAp(), context.addSegment());
+      });
+      runner.initialize().unwrap();
+      expect(runner.run().unwrapErr()).toEqual(UnexitedScopeError);
+    });
+
+    test('should run a program with a valid range check', () => {
+      const runner = new CairoRunner(RANGE_CHECK);
+      runner.initialize().unwrap();
+      runner.run().unwrap();
+
+      expect(runner.vm.builtins[0].getUsedCells(runner.vm.segments)).toEqual(1);
+    });
+
+    test('should return an error if a builtin does not fit in the layout', () => {
+      const runner = new CairoRunner(PEDERSEN, { layout: LAYOUTS.small });
+      runner.initialize().unwrap();
+
+      // The pedersen builtin of the small layout needs 8 steps.
+      expect(runner.run().unwrapErr()).toEqual({
+        message: `${InsufficientStepsError.message}: pedersen needs at least 8 steps`,
+      });
+    });
+
+    test('should return an error if a range check fails', () => {
+      const data = [...RANGE_CHECK.data];
+      data[1] = new Felt(1n << 128n);
+      const runner = new CairoRunner(withProgram(RANGE_CHECK, data));
+      runner.initialize().unwrap();
+
+      expect(runner.run().unwrapErr()).toEqual(RangeCheckOutOfBoundsError);
+    });
+  });
+
+  describe('getExecutionResources', () => {
+    test('should count the steps and the builtin instances', () => {
+      const runner = new CairoRunner(PEDERSEN);
+      runner.initialize().unwrap();
+      runner.run().unwrap();
+
+      expect(runner.getExecutionResources()).toEqual({
+        n_steps: 7,
+        n_memory_holes: 0,
+        builtin_instance_counter: { pedersen: 1 },
+      });
+    });
+
+    test('should count the cells never accessed by an instruction', () => {
+      const runner = new CairoRunner(PROOF_MODE, {
+        layout: LAYOUTS.small,
+        proofMode: true,
+      });
+      runner.initialize().unwrap();
+      runner.run().unwrap();
+
+      // The first cell of the dummy frame.
+      expect(runner.getExecutionResources()).toEqual({
+        n_steps: 512,
+        n_memory_holes: 1,
+        builtin_instance_counter: {
+          output: 1,
+          pedersen: 0,
+          range_check: 0,
+          ecdsa: 0,
+        },
+      });
+    });
+  });
+
+  describe('run in proof mode', () => {
+    const run = () => {
+      const runner = new CairoRunner(PROOF_MODE, {
+        layout: LAYOUTS.small,
+        proofMode: true,
+      });
+      runner.initialize().unwrap();
+      runner.run().unwrap();
+      runner.relocate().unwrap();
+      return runner;
+    };
+
+    test('should pad the trace to a power of 2 fitting the builtins', () => {
+      const runner = run();
+      // The ECDSA builtin of the small layout needs 512 steps.
+      expect(runner.getState().steps).toEqual(
+        UnsignedInteger.toUint64(512n).unwrap()
+      );
+      expect(runner.getState().pc).toEqual(runner.getFinalPc());
+      expect(runner.getOutput().unwrap()).toEqual([new Felt(42n)]);
+    });
+
+    test('should give the AIR public input', () => {
+      const input = run().getAirPublicInput().unwrap();
+
+      expect(input.layout).toEqual('small');
+      expect(input.n_steps).toEqual(512);
+      // Offsets -3 and 1, biased by 2^15.
+      expect([input.rc_min, input.rc_max]).toEqual([0x7ffd, 0x8001]);
+      expect(input.memory_segments).toEqual({
+        program: { begin_addr: 1, stop_ptr: 5 },
+        execution: { begin_addr: 13, stop_ptr: 20 },
+        output: { begin_addr: 20, stop_ptr: 21 },
+        pedersen: { begin_addr: 21, stop_ptr: 21 },
+        range_check: { begin_addr: 21, stop_ptr: 21 },
+        ecdsa: { begin_addr: 21, stop_ptr: 21 },
+      });
+      // The program, the dummy frame, the output base,
+      // the output stop pointer and the output.
+      expect(input.public_memory.slice(12)).toEqual([
+        { address: 13, value: '0xf', page: 0 },
+        { address: 14, value: '0x0', page: 0 },
+        { address: 15, value: '0x14', page: 0 },
+        { address: 19, value: '0x15', page: 0 },
+        { address: 20, value: '0x2a', page: 0 },
+      ]);
+      expect(input.public_memory[0]).toEqual({
+        address: 1,
+        value: '0x40780017fff7fff',
+        page: 0,
+      });
+    });
+
+    test('should give the AIR private input', () => {
+      const input = run()
+        .getAirPrivateInput('/trace.bin', '/memory.bin')
+        .unwrap();
+
+      expect(input).toEqual({
+        trace_path: '/trace.bin',
+        memory_path: '/memory.bin',
+        pedersen: [],
+        range_check: [],
+        ecdsa: [],
+      });
+    });
+
+    test('should return an error for the AIR inputs out of proof mode', () => {
+      const runner = new CairoRunner(OUTPUT);
+      runner.initialize().unwrap();
+      runner.run().unwrap();
+      runner.relocate().unwrap();
+
+      expect(runner.getAirPublicInput().unwrapErr()).toEqual(
+        NotInProofModeError
+      );
+    });
+  });
+
+  describe('resource bounds', () => {
+    test('should stop once the run needs more than the maximum steps', () => {
+      const runner = new CairoRunner(FIBONACCI, { maxSteps: 67 });
+      runner.initialize().unwrap();
+      const error = runner.run().unwrapErr();
+      const state = runner.getState();
+
+      expect(state.steps).toEqual(UnsignedInteger.toUint64(67n).unwrap());
+      expect(error).toEqual({
+        message: `${StepLimitError.message}: 67, at step 67 and pc ${state.pc}`,
+        state,
+      });
+    });
+
+    test('should run up to the maximum steps', () => {
+      const runner = new CairoRunner(FIBONACCI, { maxSteps: 68 });
+      runner.initialize().unwrap();
+      runner.run().unwrap();
+    });
+
+    test('should stop once a builtin uses more than the maximum instances', () => {
+      const runner = new CairoRunner(PEDERSEN, {
+        maxBuiltinInstances: { pedersen: 0 },
+      });
+      runner.initialize().unwrap();
+      const error = runner.run().unwrapErr();
+      const state = runner.getState();
+
+      expect(error).toEqual({
+        message: `${BuiltinLimitError.message}: 0 pedersen, at step ${state.steps} and pc ${state.pc}`,
+        state,
+      });
+    });
+
+    test('should run up to the maximum instances of a builtin', () => {
+      const runner = new CairoRunner(PEDERSEN, {
+        maxBuiltinInstances: { pedersen: 1 },
+      });
+      runner.initialize().unwrap();
+      runner.run().unwrap();
+    });
+  });
+
+  describe('runForSteps', () => {
+    test('should run the given number of steps', () => {
+      const runner = new CairoRunner(FIBONACCI);
+      runner.initialize().unwrap();
+      runner.runForSteps(UnsignedInteger.toUint32(3).unwrap()).unwrap();
+      const { pc, ap, steps } = runner.getState();
+
+      expect(pc).toEqual(new Relocatable(0, 6));
+      expect(ap).toEqual(new Relocatable(1, 5));
+      expect(steps).toEqual(UnsignedInteger.toUint64(3n).unwrap());
+    });
+
+    test('should return an error if the program already ended', () => {
+      const runner = new CairoRunner(FIBONACCI);
+      runner.initialize().unwrap();
+      runner.vm.runContext.setPc(runner.getFinalPc());
+      const result = runner
+        .runForSteps(UnsignedInteger.toUint32(1).unwrap())
+        .unwrapErr();
+
+      expect(result).toEqual(EndOfProgramError);
+    });
+  });
+
+  describe('relocate', () => {
+    test('should relocate the memory after the program segment', () => {
+      const runner = new CairoRunner(FIBONACCI);
+      runner.initialize().unwrap();
+      runner.relocate().unwrap();
+
+      expect(runner.getRelocationTable()).toEqual([1, 21, 23, 23]);
+      expect(runner.getRelocatedMemory().get(1)).toEqual(
+        new Felt(0x480680017fff8000n)
+      );
+      expect(runner.getRelocatedMemory().get(21)).toEqual(new Felt(23n));
+      expect(runner.getRelocatedMemory().get(22)).toEqual(new Felt(23n));
+    });
+
+    test('should relocate the trace', () => {
+      const runner = new CairoRunner(FIBONACCI);
+      runner.initialize().unwrap();
+      runner.vm.trace.push({
+        pc: new Relocatable(0, 2),
+        ap: new Relocatable(1, 3),
+        fp: new Relocatable(1, 2),
+      });
+      runner.relocate().unwrap();
+
+      expect(runner.getRelocatedTrace()).toEqual([{ pc: 3, ap: 24, fp: 23 }]);
+    });
+
+    test('should return an error if a file cannot be written', () => {
+      const runner = new CairoRunner(FIBONACCI);
+      runner.initialize().unwrap();
+      runner.relocate().unwrap();
+
+      const result = runner.writeMemoryFile('/nonexistent/memory.bin');
+      expect(result.unwrapErr().message).toStartWith(WriteFileError.message);
+    });
+  });
+});
@@ -0,0 +1,850 @@
+import * as fs from 'fs';
+import { BuiltinRunner, toHex } from 'builtins/builtin';
+import { createBuiltinRunner } from 'builtins/builtins';
+import { OutputBuiltinRunner } from 'builtins/output';
+import { RangeCheckBuiltinRunner } from 'builtins/rangeCheck';
+import { HintData, compileHint } from 'hints/hintData';
+import {
+  MemorySegmentManager,
+  RelocationTable,
+  relocateAddress,
+} from 'memory/memoryManager';
+import { Option, Some } from 'option-pattern/option';
+import { Felt } from 'primitives/felt';
+import { MaybeRelocatable, Relocatable } from 'primitives/relocatable';
+import { Uint32, Uint64 } from 'primitives/uint';
+import { Program } from 'program/program';
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+import { RunContext } from 'run-context/runContext';
+import { VirtualMachine } from 'vm/virtualMachine';
+import { AirPrivateInput, AirPublicInput, PublicMemoryEntry } from './airInput';
+import { RelocatedTraceEntry, encodeMemory, encodeTrace } from './encoding';
+import { LAYOUTS, Layout } from './layout';
+
+export const MissingMainError = {
+  message: 'RunnerError: program has no main function',
+};
+
+export const EndOfProgramError = {
+  message: 'RunnerError: reached the end of the program before the last step',
+};
+
+export const MissingStartError = {
+  message:
+    'RunnerError: program has no __start__ label, it must be compiled in proof mode',
+};
+
+export const MissingEndError = {
+  message:
+    'RunnerError: program has no __end__ label, it must be compiled in proof mode',
+};
+
+export const BuiltinNotInLayoutError = {
+  message: 'RunnerError: builtin is not in the layout',
+};
+
+export const BuiltinsOrderError = {
+  message: 'RunnerError: builtins are not in the order of the layout',
+};
+
+export const InsufficientMemoryUnitsError = {
+  message: 'RunnerError: not enough memory units to fill the memory holes',
+};
+
+export const InsufficientRangeCheckUnitsError = {
+  message: 'RunnerError: not enough range check units for the range checks',
+};
+
+export const NotInProofModeError = {
+  message: 'RunnerError: the AIR inputs are only available in proof mode',
+};
+
+export const MissingPublicMemoryError = {
+  message: 'RunnerError: a public memory cell is not in memory',
+};
+
+export const EmptyRangeCheckError = {
+  message: 'RunnerError: no offset or value was range checked',
+};
+
+export const WriteFileError = {
+  message: 'RunnerError: cannot write the file',
+};
+
+export const StepLimitError = {
+  message: 'RunnerError: the run exceeded its maximum number of steps',
+};
+
+export const BuiltinLimitError = {
+  message: 'RunnerError: the run exceeded its maximum number of instances',
+};
+
+export type RunnerOptions = {
+  // Builtins and trace shape of the run. The program builtins
+  // must be in the layout, they are not checked without one.
+  layout?: Layout;
+  // Run from `__start__` to `__end__`, for the execution to be proven.
+  // The layout defaults to plain.
+  proofMode?: boolean;
+  // Bounds of the run: it stops with an `OutOfResourcesError` once it
+  // needs more steps, or more instances of a builtin, by builtin name.
+  maxSteps?: number;
+  maxBuiltinInstances?: Record<string, number>;
+};
+
+export type RunnerState = {
+  pc: Relocatable;
+  ap: Relocatable;
+  fp: Relocatable;
+  steps: Uint64;
+};
+
+// A run stopped by its bounds, with the state of the VM when it stopped.
+export type OutOfResourcesError = VMError & { state: RunnerState };
+
+// Resources used by a run, as reported by the other Cairo VMs,
+// e.g. to estimate its fee.
+export type ExecutionResources = {
+  n_steps: number;
+  n_memory_holes: number;
+  // Used instances, by builtin name.
+  builtin_instance_counter: Record<string, number>;
+};
+
+/**
+ * Runs a program in the VM.
+ * The program is loaded in the first segment and the execution segment,
+ * which holds the stack, comes second, followed by one segment per builtin.
+ * The builtin bases are the arguments of `main`, then the return fp and
+ * the end pc of `main` are pushed on the stack: they point to two extra
+ * empty segments, so that the final `ret` jumps to the end pc.
+ *
+ * In proof mode, the program is compiled with a `__start__` stub calling
+ * `main` and an infinite loop at `__end__`. The stack starts with a dummy
+ * frame, then the bases of all the builtins of the layout, which are
+ * included if the program uses them. The trace is padded with steps of
+ * the final loop, for its length to be a power of 2 fitting the cells used.
+ */
+export class CairoRunner {
+  private program: Program;
+  private layout: Layout | undefined;
+  private proofMode: boolean;
+  private maxSteps: number | undefined;
+  private maxBuiltinInstances: Record<string, number>;
+  private programBase: Relocatable;
+  private executionBase: Relocatable;
+  private finalPc: Relocatable;
+  private initialStack: MaybeRelocatable[];
+  // Offsets of the public cells of the execution segment, in proof mode.
+  private executionPublicMemory: number[];
+  // Hints of the program, by pc offset.
+  private hints: Map<number, HintData[]>;
+  private relocationTable: RelocationTable;
+  private relocatedMemory: Map<number, Felt>;
+  private relocatedTrace: RelocatedTraceEntry[];
+  vm: VirtualMachine;
+
+  constructor(program: Program, options: RunnerOptions = {}) {
+    this.program = program;
+    this.proofMode = options.proofMode ?? false;
+    this.maxSteps = options.maxSteps;
+    this.maxBuiltinInstances = options.maxBuiltinInstances ?? {};
+    this.layout =
+      options.layout ?? (this.proofMode ? LAYOUTS.plain : undefined);
+    this.vm = new VirtualMachine(
+      new MemorySegmentManager(),
+      RunContext.default(),
+      program.field
+    );
+    // The segments are allocated when initializing.
+    this.programBase = new Relocatable(0, 0);
+    this.executionBase = new Relocatable(1, 0);
+    this.finalPc = this.programBase;
+    this.initialStack = [];
+    this.executionPublicMemory = [];
+    this.hints = new Map();
+    this.relocationTable = [];
+    this.relocatedMemory = new Map();
+    this.relocatedTrace = [];
+  }
+
+  // The builtins of the program or, in proof mode, of the layout.
+  private createBuiltins(
+    segments: MemorySegmentManager
+  ): Result<BuiltinRunner[], VMError> {
+    const programBuiltins = this.program.builtins;
+    const layoutBuiltins = this.layout?.builtins.map(({ name }) => name);
+    if (this.layout !== undefined && layoutBuiltins !== undefined) {
+      const missing = programBuiltins.filter(
+        (name) => !layoutBuiltins.includes(name)
+      );
+      if (missing.length > 0) {
+        return new Err({
+          message: `${BuiltinNotInLayoutError.message} ${
+            this.layout.name
+          }: ${missing.join(', ')}`,
+        });
+      }
+      const indexes = programBuiltins.map((name) =>
+        layoutBuiltins.indexOf(name)
+      );
+      if (indexes.some((index, i) => i > 0 && index <= indexes[i - 1])) {
+        return new Err(BuiltinsOrderError);
+      }
+    }
+
+    const names =
+      this.proofMode && layoutBuiltins !== undefined
+        ? layoutBuiltins
+        : programBuiltins;
+    const builtins: BuiltinRunner[] = [];
+    for (const name of names) {
+      const builtin = createBuiltinRunner(name, segments);
+      if (builtin.isErr()) {
+        return new Err({ message: `${builtin.unwrapErr().message}: ${name}` });
+      }
+      builtin.unwrap().included = programBuiltins.includes(name);
+      builtin.unwrap().ratio = this.layout?.builtins.find(
+        (layoutBuiltin) => layoutBuiltin.name === name
+      )?.ratio;
+      builtins.push(builtin.unwrap());
+    }
+    return new Ok(builtins);
+  }
+
+  // Allocate the program and execution segments, then one segment per
+  // builtin and, out of proof mode, the return fp and end segments.
+  private initializeSegments(): Result<true, VMError> {
+    const segments = this.vm.segments;
+    this.programBase = segments.addSegment();
+    this.executionBase = segments.addSegment();
+    const builtins = this.createBuiltins(segments);
+    if (builtins.isErr()) {
+      return builtins;
+    }
+    this.vm.builtins = builtins.unwrap();
+    const builtinStack = this.vm.builtins.flatMap((builtin) =>
+      builtin.initialStack()
+    );
+
+    if (this.proofMode) {
+      // The end pc is the `__end__` label.
+      this.finalPc = this.programBase;
+      // Dummy frame, so that the verifier can enforce [fp - 2] = fp.
+      this.initialStack = [
+        new Relocatable(this.executionBase.getSegmentIndex(), 2),
+        this.program.field.felt(0n),
+        ...builtinStack,
+      ];
+    } else {
+      const returnFp = segments.addSegment();
+      this.finalPc = segments.addSegment();
+      this.initialStack = [...builtinStack, returnFp, this.finalPc];
+    }
+    return new Ok(true as const);
+  }
+
+  // Allocate the segments, load the program and the initial stack in memory,
+  // compile its hints and set the registers at the beginning of `main`,
+  // or of `__start__` in proof mode.
+  initialize(): Result<Relocatable, VMError> {
+    const segments = this.initializeSegments();
+    if (segments.isErr()) {
+      return segments;
+    }
+    const entrypoint = this.proofMode
+      ? this.program.getLabel(`${this.program.mainScope}.__start__`)
+      : this.program.main;
+    if (entrypoint.isNone()) {
+      return new Err(this.proofMode ? MissingStartError : MissingMainError);
+    }
+    if (this.proofMode) {
+      const end = this.program.getLabel(`${this.program.mainScope}.__end__`);
+      if (end.isNone()) {
+        return new Err(MissingEndError);
+      }
+      this.finalPc = new Relocatable(
+        this.programBase.getSegmentIndex(),
+        end.unwrap()
+      );
+      this.executionPublicMemory = this.initialStack.map((_, index) => index);
+    }
+
+    const programEnd = this.vm.segments.loadData(
+      this.programBase,
+      this.program.data
+    );
+    if (programEnd.isErr()) {
+      return programEnd;
+    }
+    // The whole program is public, none of its cells is a memory hole.
+    this.program.data.forEach((_, offset) =>
+      this.vm.segments.memory.markAsAccessed(
+        new Relocatable(this.programBase.getSegmentIndex(), offset)
+      )
+    );
+
+    for (const [pc, pcHints] of this.program.hints) {
+      const compiled: HintData[] = [];
+      for (const hint of pcHints) {
+        const data = compileHint(hint, this.program);
+        if (data.isErr()) {
+          return data;
+        }
+        compiled.push(data.unwrap());
+      }
+      this.hints.set(pc, compiled);
+    }
+
+    const stackEnd = this.vm.segments.loadData(
+      this.executionBase,
+      this.initialStack
+    );
+    if (stackEnd.isErr()) {
+      return stackEnd;
+    }
+
+    // In proof mode, `__start__` moves ap after the builtin bases.
+    const fp = this.proofMode ? 2 : this.initialStack.length;
+    this.vm.runContext = new RunContext(entrypoint.unwrap(), fp, fp);
+
+    this.vm.builtins.forEach((builtin) => {
+      builtin.addValidationRule(this.vm.segments.memory);
+      builtin.addDeductionRule(this.vm.segments.memory);
+    });
+
+    return new Ok(this.finalPc);
+  }
+
+  // Run the VM until pc reaches the end pointer of the program,
+  // then check that the hints exited their scopes, move the temporary
+  // segments to their destination, validate the whole memory and check
+  // the stop pointers returned by `main` for each builtin. With a layout,
+  // the builtins must fit in the instances it allocates to the run.
+  // In proof mode, the trace is padded and the public memory is recorded.
+  run(): Result<true, VMError> {
+    const run = this.runUntilPc(this.finalPc);
+    if (run.isErr()) {
+      return run;
+    }
+    const scopes = this.vm.scopes.checkAllExited();
+    if (scopes.isErr()) {
+      return scopes;
+    }
+    const memory = this.vm.segments.memory;
+    const relocation = memory.applyRelocationRules();
+    if (relocation.isErr()) {
+      return relocation;
+    }
+    const validation = memory.validateExistingMemory();
+    if (validation.isErr()) {
+      return validation;
+    }
+    if (!this.proofMode) {
+      const returnValues = this.readReturnValues();
+      if (returnValues.isErr()) {
+        return returnValues;
+      }
+      return this.checkBuiltinUsage();
+    }
+
+    const padding = this.runUntilProvable();
+    if (padding.isErr()) {
+      return padding;
+    }
+    const returnValues = this.readReturnValues();
+    if (returnValues.isErr()) {
+      return returnValues;
+    }
+    this.finalizeSegments();
+    return new Ok(true as const);
+  }
+
+  // Pad the trace with steps of the `__end__` loop until its length
+  // is a power of 2 and the cells used by the run fit in it.
+  private runUntilProvable(): Result<true, VMError> {
+    const padding = this.runUntilNextPowerOfTwo();
+    if (padding.isErr()) {
+      return padding;
+    }
+    while (this.checkUsedCells().isErr()) {
+      const step = this.step();
+      if (step.isErr()) {
+        return step;
+      }
+      const next = this.runUntilNextPowerOfTwo();
+      if (next.isErr()) {
+        return next;
+      }
+    }
+    return new Ok(true as const);
+  }
+
+  private runUntilNextPowerOfTwo(): Result<true, VMError> {
+    const isPowerOfTwo = (n: bigint) => (n & (n - 1n)) === 0n;
+    while (!isPowerOfTwo(this.vm.getCurrentStep())) {
+      const step = this.step();
+      if (step.isErr()) {
+        return step;
+      }
+    }
+    return new Ok(true as const);
+  }
+
+  // Check that the cells used by the run fit in the trace of the layout,
+  // if any: the builtin instances, the memory holes and the range checked
+  // values.
+  checkUsedCells(): Result<true, VMError> {
+    if (this.layout === undefined) {
+      return new Ok(true as const);
+    }
+    const builtins = this.checkBuiltinUsage();
+    if (builtins.isErr()) {
+      return builtins;
+    }
+    const rangeChecks = this.checkRangeCheckUsage(this.layout);
+    if (rangeChecks.isErr()) {
+      return rangeChecks;
+    }
+    return this.checkMemoryUsage(this.layout);
+  }
+
+  // The cells used by each builtin must fit in the instances
+  // allocated by the layout, i.e. one every `ratio` steps.
+  private checkBuiltinUsage(): Result<true, VMError> {
+    const steps = Number(this.vm.getCurrentStep());
+    for (const builtin of this.vm.builtins) {
+      const check = builtin.checkUsedCells(this.vm.segments, steps);
+      if (check.isErr()) {
+        return check;
+      }
+    }
+    return new Ok(true as const);
+  }
+
+  // Range check units of the trace left after the instructions and builtins
+  // must cover the range between the smallest and largest checked values.
+  private checkRangeCheckUsage(layout: Layout): Result<true, VMError> {
+    const limits = this.getPermRangeCheckLimits();
+    if (limits.isNone()) {
+      return new Ok(true as const);
+    }
+    const [rcMin, rcMax] = limits.unwrap();
+    const builtinUnits = this.vm.builtins
+      .filter(
+        (builtin): builtin is RangeCheckBuiltinRunner =>
+          builtin instanceof RangeCheckBuiltinRunner
+      )
+      .reduce(
+        (units, builtin) =>
+          units + builtin.getUsedPermRangeCheckUnits(this.vm.segments),
+        0
+      );
+    const steps = Number(this.vm.getCurrentStep());
+    const unusedUnits = (layout.rcUnits - 3) * steps - builtinUnits;
+    if (unusedUnits < rcMax - rcMin) {
+      return new Err(InsufficientRangeCheckUnitsError);
+    }
+    return new Ok(true as const);
+  }
+
+  // Memory units of the trace left after the public memory, the instructions
+  // and the builtins must be enough to fill the memory holes.
+  private checkMemoryUsage(layout: Layout): Result<true, VMError> {
+    const segments = this.vm.segments;
+    const steps = Number(this.vm.getCurrentStep());
+    let builtinUnits = 0;
+    for (const builtin of this.vm.builtins) {
+      const instances = builtin.getAllocatedInstances(segments, steps);
+      if (instances.isErr()) {
+        return instances;
+      }
+      builtinUnits += instances.unwrap() * builtin.cellsPerInstance;
+    }
+    const totalUnits = layout.memoryUnitsPerStep * steps;
+    const publicMemoryUnits = Math.floor(
+      totalUnits / layout.publicMemoryFraction
+    );
+    const instructionUnits = 4 * steps;
+    const unusedUnits =
+      totalUnits - publicMemoryUnits - instructionUnits - builtinUnits;
+    if (unusedUnits < this.getMemoryHoles()) {
+      return new Err(InsufficientMemoryUnitsError);
+    }
+    return new Ok(true as const);
+  }
+
+  // Cells of the non-builtin segments never accessed by the run.
+  getMemoryHoles(): number {
+    return this.vm.segments.getMemoryHoles(
+      this.vm.builtins.map((builtin) => builtin.getBase().getSegmentIndex())
+    );
+  }
+
+  getExecutionResources(): ExecutionResources {
+    const segments = this.vm.segments;
+    return {
+      n_steps: Number(this.vm.getCurrentStep()),
+      n_memory_holes: this.getMemoryHoles(),
+      builtin_instance_counter: Object.fromEntries(
+        this.vm.builtins.map((builtin) => [
+          builtin.name,
+          builtin.getUsedInstances(segments),
+        ])
+      ),
+    };
+  }
+
+  // Smallest and largest range checked values: the biased offsets of the
+  // instructions and the parts of the range check builtin values.
+  getPermRangeCheckLimits(): Option<[number, number]> {
+    let limits = this.vm.getRcLimits();
+    for (const builtin of this.vm.builtins) {
+      if (!(builtin instanceof RangeCheckBuiltinRunner)) {
+        continue;
+      }
+      const usage = builtin.getRangeCheckUsage(this.vm.segments);
+      if (usage.isNone()) {
+        continue;
+      }
+      const [min, max] = usage.unwrap();
+      const [rcMin, rcMax] = limits.isNone() ? [min, max] : limits.unwrap();
+      limits = new Some<[number, number]>([
+        Math.min(rcMin, min),
+        Math.max(rcMax, max),
+      ]);
+    }
+    return limits;
+  }
+
+  // The public memory is the whole program, the public cells of the
+  // execution segment and the program output.
+  private finalizeSegments() {
+    const segments = this.vm.segments;
+    const page = 0;
+    segments.finalize(
+      this.programBase.getSegmentIndex(),
+      this.program.data.map((_, offset) => ({ offset, page }))
+    );
+    segments.finalize(
+      this.executionBase.getSegmentIndex(),
+      this.executionPublicMemory.map((offset) => ({ offset, page }))
+    );
+    for (const builtin of this.vm.builtins) {
+      if (builtin instanceof OutputBuiltinRunner) {
+        const size = builtin.getUsedCells(segments);
+        segments.finalize(
+          builtin.getBase().getSegmentIndex(),
+          Array.from({ length: size }, (_, offset) => ({ offset, page }))
+        );
+      }
+    }
+  }
+
+  runUntilPc(finalPc: Relocatable): Result<true, VMError> {
+    while (!this.vm.runContext.getPc().eq(finalPc)) {
+      const step = this.step();
+      if (step.isErr()) {
+        return step;
+      }
+    }
+    return new Ok(true as const);
+  }
+
+  // `main` returns the builtin stop pointers, in the order of the builtins,
+  // at the end of the stack: read them backwards from ap.
+  // In proof mode, the return values are part of the public memory.
+  readReturnValues(): Result<true, VMError> {
+    const ap = this.vm.runContext.getAp();
+    let pointer = ap;
+    for (const builtin of [...this.vm.builtins].reverse()) {
+      const next = builtin.finalStack(this.vm.segments, pointer);
+      if (next.isErr()) {
+        return next;
+      }
+      pointer = next.unwrap();
+    }
+    if (this.proofMode) {
+      for (
+        let offset = pointer.getOffset();
+        offset < ap.getOffset();
+        offset++
+      ) {
+        this.executionPublicMemory.push(offset);
+      }
+    }
+    return new Ok(true as const);
+  }
+
+  runForSteps(steps: Uint32): Result<true, VMError> {
+    for (let i = 0; i < steps; i++) {
+      if (this.vm.runContext.getPc().eq(this.finalPc)) {
+        return new Err(EndOfProgramError);
+      }
+      const step = this.step();
+      if (step.isErr()) {
+        return step;
+      }
+    }
+    return new Ok(true as const);
+  }
+
+  // Step with the hints of the current pc, if it is in the program,
+  // within the bounds of the run.
+  private step(): Result<true, VMError> {
+    if (
+      this.maxSteps !== undefined &&
+      this.vm.getCurrentStep() >= BigInt(this.maxSteps)
+    ) {
+      return this.outOfResources(StepLimitError, `${this.maxSteps}`);
+    }
+
+    const pc = this.vm.runContext.getPc();
+    const step =
+      pc.getSegmentIndex() !== this.programBase.getSegmentIndex()
+        ? this.vm.step()
+        : this.vm.step(this.hints.get(pc.getOffset()));
+    if (step.isErr()) {
+      return step;
+    }
+    return this.checkBuiltinLimits();
+  }
+
+  private checkBuiltinLimits(): Result<true, VMError> {
+    for (const builtin of this.vm.builtins) {
+      const limit = this.maxBuiltinInstances[builtin.name];
+      if (limit === undefined) {
+        continue;
+      }
+      const instances = builtin.getUsedInstances(this.vm.segments);
+      if (instances > limit) {
+        return this.outOfResources(
+          BuiltinLimitError,
+          `${limit} ${builtin.name}`
+        );
+      }
+    }
+    return new Ok(true as const);
+  }
+
+  private outOfResources(
+    error: VMError,
+    limit: string
+  ): Err<OutOfResourcesError> {
+    const state = this.getState();
+    return new Err({
+      message: `${error.message}: ${limit}, at step ${state.steps} and pc ${state.pc}`,
+      state,
+    });
+  }
+
+  // Relocate the memory and the trace into a flat address space,
+  // once the run is over.
+  relocate(): Result<true, VMError> {
+    const table = this.vm.segments.getRelocationTable();
+    const relocatedMemory = this.vm.segments.relocateMemory(
+      table,
+      this.vm.field
+    );
+    if (relocatedMemory.isErr()) {
+      return relocatedMemory;
+    }
+
+    const relocatedTrace: RelocatedTraceEntry[] = [];
+    for (const entry of this.vm.trace) {
+      const pc = relocateAddress(entry.pc, table);
+      if (pc.isErr()) {
+        return pc;
+      }
+      const ap = relocateAddress(entry.ap, table);
+      if (ap.isErr()) {
+        return ap;
+      }
+      const fp = relocateAddress(entry.fp, table);
+      if (fp.isErr()) {
+        return fp;
+      }
+      relocatedTrace.push({
+        pc: pc.unwrap(),
+        ap: ap.unwrap(),
+        fp: fp.unwrap(),
+      });
+    }
+
+    this.relocationTable = table;
+    this.relocatedMemory = relocatedMemory.unwrap();
+    this.relocatedTrace = relocatedTrace;
+    return new Ok(true as const);
+  }
+
+  getRelocatedTrace(): RelocatedTraceEntry[] {
+    return this.relocatedTrace;
+  }
+
+  // Write the relocated trace in the binary format of the provers.
+  writeTraceFile(path: string): Result<true, VMError> {
+    return writeFile(path, encodeTrace(this.relocatedTrace));
+  }
+
+  // Write the relocated memory in the binary format of the provers.
+  writeMemoryFile(path: string): Result<true, VMError> {
+    return writeFile(path, encodeMemory(this.relocatedMemory));
+  }
+
+  // The public input of the prover, once the run is relocated:
+  // the layout, the range of the range checks, the number of steps,
+  // the segment boundaries and the public memory.
+  getAirPublicInput(): Result<AirPublicInput, VMError> {
+    if (!this.proofMode || this.layout === undefined) {
+      return new Err(NotInProofModeError);
+    }
+    const limits = this.getPermRangeCheckLimits();
+    if (limits.isNone()) {
+      return new Err(EmptyRangeCheckError);
+    }
+    const table = this.relocationTable;
+    const segments = this.vm.segments;
+
+    const boundaries: [string, Relocatable, Relocatable][] = [
+      ['program', this.programBase, this.finalPc],
+      ['execution', this.executionBase, this.vm.runContext.getAp()],
+    ];
+    for (const builtin of this.vm.builtins) {
+      const base = builtin.getBase();
+      const stop = new Relocatable(
+        base.getSegmentIndex(),
+        builtin.getUsedCells(segments)
+      );
+      boundaries.push([builtin.name, base, stop]);
+    }
+    const memorySegments: AirPublicInput['memory_segments'] = {};
+    for (const [name, begin, stop] of boundaries) {
+      const beginAddress = relocateAddress(begin, table);
+      if (beginAddress.isErr()) {
+        return beginAddress;
+      }
+      const stopAddress = relocateAddress(stop, table);
+      if (stopAddress.isErr()) {
+        return stopAddress;
+      }
+      memorySegments[name] = {
+        begin_addr: beginAddress.unwrap(),
+        stop_ptr: stopAddress.unwrap(),
+      };
+    }
+
+    const addresses = segments.getPublicMemoryAddresses(table);
+    if (addresses.isErr()) {
+      return addresses;
+    }
+    const publicMemory: PublicMemoryEntry[] = [];
+    for (const { address, page } of addresses.unwrap()) {
+      const value = this.relocatedMemory.get(address);
+      if (value === undefined) {
+        return new Err(MissingPublicMemoryError);
+      }
+      publicMemory.push({ address, value: toHex(value), page });
+    }
+
+    const [rcMin, rcMax] = limits.unwrap();
+    return new Ok({
+      layout: this.layout.name,
+      rc_min: rcMin,
+      rc_max: rcMax,
+      n_steps: Number(this.vm.getCurrentStep()),
+      memory_segments: memorySegments,
+      public_memory: publicMemory,
+    });
+  }
+
+  // The private input of the prover: the paths of the relocated trace
+  // and memory files and the inputs of the builtin instances.
+  getAirPrivateInput(
+    tracePath: string,
+    memoryPath: string
+  ): Result<AirPrivateInput, VMError> {
+    if (!this.proofMode) {
+      return new Err(NotInProofModeError);
+    }
+    const input: AirPrivateInput = {
+      trace_path: tracePath,
+      memory_path: memoryPath,
+    };
+    for (const builtin of this.vm.builtins) {
+      if (!(builtin instanceof OutputBuiltinRunner)) {
+        input[builtin.name] = builtin.airPrivateInput(this.vm.segments);
+      }
+    }
+    return new Ok(input);
+  }
+
+  writeAirPublicInput(path: string): Result<true, VMError> {
+    const input = this.getAirPublicInput();
+    if (input.isErr()) {
+      return input;
+    }
+    return writeFile(path, JSON.stringify(input.unwrap(), null, 4));
+  }
+
+  writeAirPrivateInput(
+    path: string,
+    tracePath: string,
+    memoryPath: string
+  ): Result<true, VMError> {
+    const input = this.getAirPrivateInput(tracePath, memoryPath);
+    if (input.isErr()) {
+      return input;
+    }
+    return writeFile(path, JSON.stringify(input.unwrap(), null, 4));
+  }
+
+  getRelocationTable(): RelocationTable {
+    return this.relocationTable;
+  }
+
+  getRelocatedMemory(): Map<number, Felt> {
+    return this.relocatedMemory;
+  }
+
+  getFinalPc(): Relocatable {
+    return this.finalPc;
+  }
+
+  // The program output, if it uses the output builtin.
+  getOutput(): Result<Felt[], VMError> {
+    const output = this.vm.builtins.find(
+      (builtin): builtin is OutputBuiltinRunner =>
+        builtin instanceof OutputBuiltinRunner
+    );
+    if (output === undefined) {
+      return new Ok([]);
+    }
+    return output.getOutput(this.vm.segments);
+  }
+
+  getExecutionBase(): Relocatable {
+    return this.executionBase;
+  }
+
+  getState(): RunnerState {
+    return {
+      pc: this.vm.runContext.getPc(),
+      ap: this.vm.runContext.getAp(),
+      fp: this.vm.runContext.getFp(),
+      steps: this.vm.getCurrentStep(),
+    };
+  }
+}
+
+function writeFile(
+  path: string,
+  data: string | Uint8Array
+): Result<true, VMError> {
+  try {
+    fs.writeFileSync(path, data);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return new Err({ message: `${WriteFileError.message}: ${reason}` });
+  }
+  return new Ok(true as const);
+}
@@ -0,0 +1,58 @@
+import { test, expect, describe } from 'bun:test';
+import { encodeMemory, encodeTrace } from './encoding';
+import { Felt } from 'primitives/felt';
+
+describe('encoding', () => {
+  describe('encodeTrace', () => {
+    test('should encode ap, fp and pc as 64-bit little-endian integers', () => {
+      const encoded = encodeTrace([
+        { pc: 1, ap: 0x105, fp: 4 },
+        { pc: 3, ap: 6, fp: 4 },
+      ]);
+
+      expect([...encoded]).toEqual([
+        0x05, 0x01, 0, 0, 0, 0, 0, 0, 4, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0,
+        0, 0, 6, 0, 0, 0, 0, 0, 0, 0, 4, 0, 0, 0, 0, 0, 0, 0, 3, 0, 0, 0, 0, 0,
+        0, 0,
+      ]);
+    });
+  });
+
+  describe('encodeMemory', () => {
+    test('should encode each cell as its address and its 256-bit value, sorted by address', () => {
+      const memory = new Map([
+        [3, new Felt(Felt.PRIME - 1n)],
+        [1, new Felt(0x0201n)],
+      ]);
+      const encoded = encodeMemory(memory);
+
+      expect(encoded.length).toEqual(80);
+      expect([...encoded.slice(0, 40)]).toEqual([
+        1,
+        0,
+        0,
+        0,
+        0,
+        0,
+        0,
+        0,
+        0x01,
+        0x02,
+        ...new Array(30).fill(0),
+      ]);
+      expect([...encoded.slice(40, 48)]).toEqual([3, 0, 0, 0, 0, 0, 0, 0]);
+      // PRIME - 1 = 0x800000000000011 << 192
+      expect([...encoded.slice(48, 80)]).toEqual([
+        ...new Array(24).fill(0),
+        0x11,
+        0,
+        0,
+        0,
+        0,
+        0,
+        0,
+        0x08,
+      ]);
+    });
+  });
+});
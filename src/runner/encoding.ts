@@ -0,0 +1,51 @@
+// Binary encoding of the relocated trace and memory, in the format expected by
+// the provers and produced by the other Cairo VMs, e.g.
+// https://github.com/lambdaclass/cairo-vm/blob/main/vm/src/cairo_run.rs
+
+import { Felt } from 'primitives/felt';
+
+// Relocated trace entry: the registers as flat addresses.
+export type RelocatedTraceEntry = {
+  pc: number;
+  ap: number;
+  fp: number;
+};
+
+// Byte length of an address, i.e. a 64-bit unsigned integer.
+const ADDRESS_BYTES = 8;
+// Byte length of a felt, i.e. a 256-bit unsigned integer.
+const FELT_BYTES = 32;
+
+// Each trace entry is encoded as ap, fp and pc,
+// each one as a 64-bit little-endian integer.
+export function encodeTrace(trace: RelocatedTraceEntry[]): Uint8Array {
+  const buffer = new Uint8Array(trace.length * 3 * ADDRESS_BYTES);
+  const view = new DataView(buffer.buffer);
+  trace.forEach(({ pc, ap, fp }, index) => {
+    const offset = index * 3 * ADDRESS_BYTES;
+    view.setBigUint64(offset, BigInt(ap), true);
+    view.setBigUint64(offset + ADDRESS_BYTES, BigInt(fp), true);
+    view.setBigUint64(offset + 2 * ADDRESS_BYTES, BigInt(pc), true);
+  });
+  return buffer;
+}
+
+// Each memory cell is encoded as its address, a 64-bit little-endian integer,
+// followed by its value, a 256-bit little-endian integer.
+// Cells are sorted by address.
+export function encodeMemory(memory: Map<number, Felt>): Uint8Array {
+  const cellBytes = ADDRESS_BYTES + FELT_BYTES;
+  const buffer = new Uint8Array(memory.size * cellBytes);
+  const view = new DataView(buffer.buffer);
+  const addresses = [...memory.keys()].sort((a, b) => a - b);
+  addresses.forEach((address, index) => {
+    const offset = index * cellBytes;
+    view.setBigUint64(offset, BigInt(address), true);
+    let value = memory.get(address)!.toBigInt();
+    for (let i = 0; i < FELT_BYTES; i++) {
+      buffer[offset + ADDRESS_BYTES + i] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+  });
+  return buffer;
+}
@@ -0,0 +1,22 @@
+import { test, expect, describe } from 'bun:test';
+import { LAYOUTS, UnknownLayoutError, getLayout } from './layout';
+
+describe('getLayout', () => {
+  test('should return a layout by name', () => {
+    expect(getLayout('small').unwrap()).toEqual(LAYOUTS.small);
+  });
+
+  test('should return an error for an unknown layout', () => {
+    expect(getLayout('unknown').unwrapErr()).toEqual({
+      message: `${UnknownLayoutError.message}: unknown`,
+    });
+  });
+
+  test('should bound every builtin but the output by a ratio', () => {
+    for (const layout of Object.values(LAYOUTS)) {
+      for (const { name, ratio } of layout.builtins) {
+        expect(ratio === undefined).toEqual(name === 'output');
+      }
+    }
+  });
+});
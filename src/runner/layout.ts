@@ -0,0 +1,158 @@
+import { Err, Ok, Result, VMError } from 'result-pattern/result';
+
+export const UnknownLayoutError = {
+  message: 'LayoutError: unknown layout',
+};
+
+// A builtin of a layout. The layout allocates an instance of the builtin
+// every `ratio` steps; the output builtin has no ratio, its instances
+// are the used ones.
+export type LayoutBuiltin = {
+  name: string;
+  ratio?: number;
+};
+
+/**
+ * A layout describes the shape of the AIR proving the execution:
+ * the builtins it has, in their order, and the number of trace cells
+ * dedicated to range checks and memory for each step.
+ */
+export type Layout = {
+  name: string;
+  // Range check units per step.
+  rcUnits: number;
+  // One memory cell out of `publicMemoryFraction` is kept for the public memory.
+  publicMemoryFraction: number;
+  // Memory units per step.
+  memoryUnitsPerStep: number;
+  builtins: LayoutBuiltin[];
+};
+
+// The layouts of cairo-lang.
+export const LAYOUTS: Record<string, Layout> = {
+  plain: {
+    name: 'plain',
+    rcUnits: 16,
+    publicMemoryFraction: 4,
+    memoryUnitsPerStep: 8,
+    builtins: [],
+  },
+  small: {
+    name: 'small',
+    rcUnits: 16,
+    publicMemoryFraction: 4,
+    memoryUnitsPerStep: 8,
+    builtins: [
+      { name: 'output' },
+      { name: 'pedersen', ratio: 8 },
+      { name: 'range_check', ratio: 8 },
+      { name: 'ecdsa', ratio: 512 },
+    ],
+  },
+  dex: {
+    name: 'dex',
+    rcUnits: 4,
+    publicMemoryFraction: 4,
+    memoryUnitsPerStep: 8,
+    builtins: [
+      { name: 'output' },
+      { name: 'pedersen', ratio: 8 },
+      { name: 'range_check', ratio: 8 },
+      { name: 'ecdsa', ratio: 512 },
+    ],
+  },
+  recursive: {
+    name: 'recursive',
+    rcUnits: 4,
+    publicMemoryFraction: 8,
+    memoryUnitsPerStep: 8,
+    builtins: [
+      { name: 'output' },
+      { name: 'pedersen', ratio: 128 },
+      { name: 'range_check', ratio: 8 },
+      { name: 'bitwise', ratio: 8 },
+    ],
+  },
+  starknet: {
+    name: 'starknet',
+    rcUnits: 4,
+    publicMemoryFraction: 8,
+    memoryUnitsPerStep: 8,
+    builtins: [
+      { name: 'output' },
+      { name: 'pedersen', ratio: 32 },
+      { name: 'range_check', ratio: 16 },
+      { name: 'ecdsa', ratio: 2048 },
+      { name: 'bitwise', ratio: 64 },
+      { name: 'ec_op', ratio: 1024 },
+      { name: 'poseidon', ratio: 32 },
+    ],
+  },
+  starknet_with_keccak: {
+    name: 'starknet_with_keccak',
+    rcUnits: 4,
+    publicMemoryFraction: 8,
+    memoryUnitsPerStep: 8,
+    builtins: [
+      { name: 'output' },
+      { name: 'pedersen', ratio: 32 },
+      { name: 'range_check', ratio: 16 },
+      { name: 'ecdsa', ratio: 2048 },
+      { name: 'bitwise', ratio: 64 },
+      { name: 'ec_op', ratio: 1024 },
+      { name: 'keccak', ratio: 2048 },
+      { name: 'poseidon', ratio: 32 },
+    ],
+  },
+  recursive_large_output: {
+    name: 'recursive_large_output',
+    rcUnits: 4,
+    publicMemoryFraction: 8,
+    memoryUnitsPerStep: 8,
+    builtins: [
+      { name: 'output' },
+      { name: 'pedersen', ratio: 128 },
+      { name: 'range_check', ratio: 8 },
+      { name: 'bitwise', ratio: 8 },
+      { name: 'poseidon', ratio: 8 },
+    ],
+  },
+  all_cairo: {
+    name: 'all_cairo',
+    rcUnits: 4,
+    publicMemoryFraction: 8,
+    memoryUnitsPerStep: 8,
+    builtins: [
+      { name: 'output' },
+      { name: 'pedersen', ratio: 256 },
+      { name: 'range_check', ratio: 8 },
+      { name: 'ecdsa', ratio: 2048 },
+      { name: 'bitwise', ratio: 16 },
+      { name: 'ec_op', ratio: 1024 },
+      { name: 'keccak', ratio: 2048 },
+      { name: 'poseidon', ratio: 256 },
+    ],
+  },
+  all_solidity: {
+    name: 'all_solidity',
+    rcUnits: 8,
+    publicMemoryFraction: 8,
+    memoryUnitsPerStep: 8,
+    builtins: [
+      { name: 'output' },
+      { name: 'pedersen', ratio: 8 },
+      { name: 'range_check', ratio: 8 },
+      { name: 'ecdsa', ratio: 512 },
+      { name: 'bitwise', ratio: 256 },
+      { name: 'ec_op', ratio: 256 },
+    ],
+  },
+};
+
+export function getLayout(name: string): Result<Layout, VMError> {
+  const layout = LAYOUTS[name];
+  if (layout === undefined) {
+    return new Err({ message: `${UnknownLayoutError.message}: ${name}` });
+  }
+  return new Ok(layout);
+}
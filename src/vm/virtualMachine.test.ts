@@ -0,0 +1,531 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  DiffAssertValuesError,
+  EndOfInstructionsError,
+  InvalidCallOp0Error,
+  InvalidOperationError,
+  MulDeductionRelocatableError,
+  MulDeductionZeroError,
+  Op0DeductionError,
+  Operands,
+  UnconstrainedResAssertEqError,
+  VirtualMachine,
+} from './virtualMachine';
+import {
+  ApUpdate,
+  FpUpdate,
+  Instruction,
+  Op1Src,
+  Opcode,
+  PcUpdate,
+  RegisterFlag,
+  ResLogic,
+} from './instruction';
+import { SignedInteger16 } from 'primitives/int';
+import { Felt } from 'primitives/felt';
+import { MaybeRelocatable, Relocatable } from 'primitives/relocatable';
+import { None, Option, Some } from 'option-pattern/option';
+import { Err, VMError } from 'result-pattern/result';
+import { UnsignedInteger } from 'primitives/uint';
+import { MemorySegmentManager } from 'memory/memoryManager';
+import { RunContext } from 'run-context/runContext';
+
+const instruction: Instruction = {
+  offDst: SignedInteger16.toInt16(0),
+  offOp0: SignedInteger16.toInt16(-1),
+  offOp1: SignedInteger16.toInt16(1),
+  dstReg: RegisterFlag.AP,
+  op0Reg: RegisterFlag.FP,
+  op1Src: Op1Src.Imm,
+  resLogic: ResLogic.Add,
+  pcUpdate: PcUpdate.Regular,
+  apUpdate: ApUpdate.Regular,
+  fpUpdate: FpUpdate.Regular,
+  opcode: Opcode.NoOp,
+};
+
+describe('VirtualMachine', () => {
+  describe('step', () => {
+    test('should run an instruction with an immediate value', () => {
+      const vm = new VirtualMachine(
+        new MemorySegmentManager(),
+        new RunContext(0, 2, 2)
+      );
+      vm.segments.addSegment();
+      vm.segments.addSegment();
+      // [ap] = 10; ap++
+      vm.segments.loadData(new Relocatable(0, 0), [
+        new Felt(0x480680017fff8000n),
+        new Felt(10n),
+      ]);
+      // Initial stack: return fp and return pc
+      vm.segments.loadData(new Relocatable(1, 0), [new Felt(0n), new Felt(0n)]);
+      vm.step().unwrap();
+
+      expect(vm.segments.memory.get(new Relocatable(1, 2))).toEqual(
+        new Some(new Felt(10n))
+      );
+      expect(vm.runContext.getPc()).toEqual(new Relocatable(0, 2));
+      expect(vm.runContext.getAp()).toEqual(new Relocatable(1, 3));
+      expect(vm.getCurrentStep()).toEqual(
+        UnsignedInteger.toUint64(1n).unwrap()
+      );
+      expect(vm.trace).toEqual([
+        {
+          pc: new Relocatable(0, 0),
+          ap: new Relocatable(1, 2),
+          fp: new Relocatable(1, 2),
+        },
+      ]);
+      // Offsets 0, -1 and 1, biased by 2^15.
+      expect(vm.getRcLimits().unwrap()).toEqual([0x7fff, 0x8001]);
+      // The instruction and its immediate value, the written cell and
+      // op0 at fp - 1, even though the instruction does not use it.
+      expect(vm.segments.memory.getNumAccessed(0)).toEqual(2);
+      expect(vm.segments.memory.getNumAccessed(1)).toEqual(2);
+    });
+
+    test('should return an error if there is no instruction at pc', () => {
+      const vm = new VirtualMachine();
+      vm.segments.addSegment();
+      expect(vm.step().unwrapErr()).toEqual(EndOfInstructionsError);
+      expect(vm.segments.memory.getNumAccessed(0)).toEqual(0);
+    });
+  });
+
+  describe('computeRes', () => {
+    test('should return op1 for ResLogic.Op1', () => {
+      const vm = new VirtualMachine();
+      const res = vm
+        .computeRes(
+          { ...instruction, resLogic: ResLogic.Op1 },
+          new Felt(2n),
+          new Felt(3n)
+        )
+        .unwrap();
+      expect(res).toEqual(new Some(new Felt(3n)));
+    });
+    test('should add a relocatable and a felt for ResLogic.Add', () => {
+      const vm = new VirtualMachine();
+      const res = vm
+        .computeRes(instruction, new Felt(2n), new Relocatable(1, 3))
+        .unwrap();
+      expect(res).toEqual(new Some(new Relocatable(1, 5)));
+    });
+    test('should multiply two felts for ResLogic.Mul', () => {
+      const vm = new VirtualMachine();
+      const res = vm
+        .computeRes(
+          { ...instruction, resLogic: ResLogic.Mul },
+          new Felt(2n),
+          new Felt(3n)
+        )
+        .unwrap();
+      expect(res).toEqual(new Some(new Felt(6n)));
+    });
+    test('should return None for ResLogic.Unconstrained', () => {
+      const vm = new VirtualMachine();
+      const res = vm
+        .computeRes(
+          { ...instruction, resLogic: ResLogic.Unconstrained },
+          new Felt(2n),
+          new Felt(3n)
+        )
+        .unwrap();
+      expect(res).toEqual(new None());
+    });
+  });
+
+  describe('deduceOp0', () => {
+    test('should deduce the return pc for a call', () => {
+      const vm = new VirtualMachine();
+      const { value } = vm
+        .deduceOp0(
+          { ...instruction, opcode: Opcode.Call },
+          new None(),
+          new None()
+        )
+        .unwrap();
+      expect(value).toEqual(new Some(new Relocatable(0, 2)));
+    });
+    test('should deduce op0 = dst - op1 for an AssertEq with ResLogic.Add', () => {
+      const vm = new VirtualMachine();
+      const { value, res } = vm
+        .deduceOp0(
+          { ...instruction, opcode: Opcode.AssertEq },
+          new Some(new Felt(10n)),
+          new Some(new Felt(3n))
+        )
+        .unwrap();
+      expect(value).toEqual(new Some(new Felt(7n)));
+      expect(res).toEqual(new Some(new Felt(10n)));
+    });
+  });
+
+  describe('deduceOp1', () => {
+    test('should deduce op1 = dst for an AssertEq with ResLogic.Op1', () => {
+      const vm = new VirtualMachine();
+      const { value } = vm
+        .deduceOp1(
+          { ...instruction, opcode: Opcode.AssertEq, resLogic: ResLogic.Op1 },
+          new Some(new Felt(10n)),
+          new None()
+        )
+        .unwrap();
+      expect(value).toEqual(new Some(new Felt(10n)));
+    });
+    test('should deduce op1 = dst - op0 for an AssertEq with ResLogic.Add', () => {
+      const vm = new VirtualMachine();
+      const { value } = vm
+        .deduceOp1(
+          { ...instruction, opcode: Opcode.AssertEq },
+          new Some(new Relocatable(1, 10)),
+          new Some(new Relocatable(1, 4))
+        )
+        .unwrap();
+      expect(value).toEqual(new Some(new Felt(6n)));
+    });
+  });
+
+  describe('operand deduction', () => {
+    type DeductionCase = [
+      ResLogic,
+      MaybeRelocatable,
+      MaybeRelocatable,
+      Option<MaybeRelocatable> | VMError,
+    ];
+
+    // res logic, dst, known operand, expected deduced operand or error
+    const CASES: DeductionCase[] = [
+      [ResLogic.Add, new Felt(6n), new Felt(2n), new Some(new Felt(4n))],
+      [
+        ResLogic.Add,
+        new Felt(2n),
+        new Felt(6n),
+        new Some(new Felt(Felt.PRIME - 4n)),
+      ],
+      [
+        ResLogic.Add,
+        new Relocatable(1, 6),
+        new Felt(2n),
+        new Some(new Relocatable(1, 4)),
+      ],
+      [
+        ResLogic.Add,
+        new Relocatable(1, 6),
+        new Relocatable(1, 2),
+        new Some(new Felt(4n)),
+      ],
+      [
+        ResLogic.Add,
+        new Felt(6n),
+        new Relocatable(1, 2),
+        InvalidOperationError,
+      ],
+      [ResLogic.Mul, new Felt(6n), new Felt(2n), new Some(new Felt(3n))],
+      [
+        ResLogic.Mul,
+        new Felt(1n),
+        new Felt(3n),
+        new Some(new Felt((Felt.PRIME + 1n) / 3n)),
+      ],
+      [ResLogic.Mul, new Felt(6n), new Felt(0n), MulDeductionZeroError],
+      [
+        ResLogic.Mul,
+        new Relocatable(1, 6),
+        new Felt(2n),
+        MulDeductionRelocatableError,
+      ],
+      [ResLogic.Unconstrained, new Felt(6n), new Felt(2n), new None()],
+    ];
+
+    describe.each(CASES)(
+      'with res logic %p, dst %p and operand %p',
+      (resLogic, dst, operand, expected) => {
+        const assertEq = { ...instruction, opcode: Opcode.AssertEq, resLogic };
+
+        test('should deduce op0 from dst and op1', () => {
+          const vm = new VirtualMachine();
+          const result = vm.deduceOp0(
+            assertEq,
+            new Some(dst),
+            new Some(operand)
+          );
+          if (expected instanceof Some || expected instanceof None) {
+            expect(result.unwrap().value).toEqual(expected);
+          } else {
+            expect(result.unwrapErr()).toEqual(expected);
+          }
+        });
+
+        test('should deduce op1 from dst and op0', () => {
+          const vm = new VirtualMachine();
+          const result = vm.deduceOp1(
+            assertEq,
+            new Some(dst),
+            new Some(operand)
+          );
+          if (expected instanceof Some || expected instanceof None) {
+            expect(result.unwrap().value).toEqual(expected);
+          } else {
+            expect(result.unwrapErr()).toEqual(expected);
+          }
+        });
+      }
+    );
+
+    test('should deduce op1 = dst when res = op1, but not op0', () => {
+      const vm = new VirtualMachine();
+      const assertEq = {
+        ...instruction,
+        opcode: Opcode.AssertEq,
+        resLogic: ResLogic.Op1,
+      };
+      const dst = new Some(new Felt(6n));
+      expect(vm.deduceOp1(assertEq, dst, new None()).unwrap().value).toEqual(
+        dst
+      );
+      expect(
+        vm.deduceOp0(assertEq, dst, new Some(new Felt(6n))).unwrap().value
+      ).toEqual(new None());
+    });
+
+    test('should not deduce anything without dst', () => {
+      const vm = new VirtualMachine();
+      const assertEq = { ...instruction, opcode: Opcode.AssertEq };
+      const operand = new Some(new Felt(2n));
+      expect(vm.deduceOp0(assertEq, new None(), operand).unwrap()).toEqual({
+        value: new None(),
+        res: new None(),
+      });
+      expect(vm.deduceOp1(assertEq, new None(), operand).unwrap()).toEqual({
+        value: new None(),
+        res: new None(),
+      });
+    });
+
+    test('should not deduce operands of other opcodes than AssertEq and Call', () => {
+      const vm = new VirtualMachine();
+      const dst = new Some(new Felt(6n));
+      const operand = new Some(new Felt(2n));
+      expect(vm.deduceOp0(instruction, dst, operand).unwrap().value).toEqual(
+        new None()
+      );
+      expect(vm.deduceOp1(instruction, dst, operand).unwrap().value).toEqual(
+        new None()
+      );
+    });
+  });
+
+  describe('computeOperands', () => {
+    // [fp] = [fp + 1] * [fp + 2] with [fp + 1] missing
+    const mul: Instruction = {
+      ...instruction,
+      offDst: SignedInteger16.toInt16(0),
+      offOp0: SignedInteger16.toInt16(1),
+      offOp1: SignedInteger16.toInt16(2),
+      dstReg: RegisterFlag.FP,
+      op0Reg: RegisterFlag.FP,
+      op1Src: Op1Src.FP,
+      resLogic: ResLogic.Mul,
+      opcode: Opcode.AssertEq,
+    };
+
+    test('should deduce op0 of a product and write it to memory', () => {
+      const vm = new VirtualMachine();
+      vm.segments.addSegment();
+      vm.segments.addSegment();
+      vm.segments.memory.insert(new Relocatable(1, 0), new Felt(12n));
+      vm.segments.memory.insert(new Relocatable(1, 2), new Felt(4n));
+      const operands = vm.computeOperands(mul).unwrap();
+
+      expect(operands.op0).toEqual(new Felt(3n));
+      expect(operands.res).toEqual(new Some(new Felt(12n)));
+      expect(vm.segments.memory.get(new Relocatable(1, 1))).toEqual(
+        new Some(new Felt(3n))
+      );
+    });
+
+    test('should deduce dst of a product and write it to memory', () => {
+      const vm = new VirtualMachine();
+      vm.segments.addSegment();
+      vm.segments.addSegment();
+      vm.segments.memory.insert(new Relocatable(1, 1), new Felt(3n));
+      vm.segments.memory.insert(new Relocatable(1, 2), new Felt(4n));
+      const operands = vm.computeOperands(mul).unwrap();
+
+      expect(operands.dst).toEqual(new Felt(12n));
+      expect(vm.segments.memory.get(new Relocatable(1, 0))).toEqual(
+        new Some(new Felt(12n))
+      );
+    });
+
+    test('should return an error if op0 cannot be deduced', () => {
+      const vm = new VirtualMachine();
+      vm.segments.addSegment();
+      vm.segments.addSegment();
+      vm.segments.memory.insert(new Relocatable(1, 2), new Felt(4n));
+
+      expect(vm.computeOperands(mul).unwrapErr()).toEqual(Op0DeductionError);
+    });
+
+    test('should return the error of an operand deduced by a rule', () => {
+      const vm = new VirtualMachine();
+      vm.segments.addSegment();
+      vm.segments.addSegment();
+      const error = { message: 'TestError: invalid value' };
+      vm.segments.memory.addDeductionRule(1, () => new Some(new Felt(3n)));
+      vm.segments.memory.addValidationRule(1, () => new Err(error));
+
+      expect(vm.computeOperands(mul).unwrapErr()).toEqual(error);
+    });
+  });
+
+  describe('deduceDst', () => {
+    test('should deduce dst = res for an AssertEq', () => {
+      const vm = new VirtualMachine();
+      const dst = vm.deduceDst(
+        { ...instruction, opcode: Opcode.AssertEq },
+        new Some(new Felt(5n))
+      );
+      expect(dst).toEqual(new Some(new Felt(5n)));
+    });
+    test('should deduce dst = fp for a call', () => {
+      const vm = new VirtualMachine();
+      const dst = vm.deduceDst(
+        { ...instruction, opcode: Opcode.Call },
+        new None()
+      );
+      expect(dst).toEqual(new Some(new Relocatable(1, 0)));
+    });
+  });
+
+  describe('opcodeAssertions', () => {
+    test('should fail if res is unconstrained in an AssertEq', () => {
+      const vm = new VirtualMachine();
+      const operands: Operands = {
+        dst: new Felt(1n),
+        res: new None(),
+        op0: new Felt(1n),
+        op1: new Felt(1n),
+      };
+      const result = vm
+        .opcodeAssertions({ ...instruction, opcode: Opcode.AssertEq }, operands)
+        .unwrapErr();
+      expect(result).toEqual(UnconstrainedResAssertEqError);
+    });
+    test('should fail if dst and res differ in an AssertEq', () => {
+      const vm = new VirtualMachine();
+      const operands: Operands = {
+        dst: new Felt(1n),
+        res: new Some(new Felt(2n)),
+        op0: new Felt(1n),
+        op1: new Felt(1n),
+      };
+      const result = vm
+        .opcodeAssertions({ ...instruction, opcode: Opcode.AssertEq }, operands)
+        .unwrapErr();
+      expect(result).toEqual(DiffAssertValuesError);
+    });
+    test('should fail if op0 is not the return pc in a call', () => {
+      const vm = new VirtualMachine();
+      const operands: Operands = {
+        dst: new Relocatable(1, 0),
+        res: new None(),
+        op0: new Relocatable(0, 1),
+        op1: new Felt(1n),
+      };
+      const result = vm
+        .opcodeAssertions({ ...instruction, opcode: Opcode.Call }, operands)
+        .unwrapErr();
+      expect(result).toEqual(InvalidCallOp0Error);
+    });
+  });
+
+  describe('updateRegisters', () => {
+    test('should update registers for a call', () => {
+      const vm = new VirtualMachine();
+      const operands: Operands = {
+        dst: new Relocatable(1, 0),
+        res: new Some(new Felt(4n)),
+        op0: new Relocatable(0, 2),
+        op1: new Felt(4n),
+      };
+      vm.updateRegisters(
+        {
+          ...instruction,
+          opcode: Opcode.Call,
+          resLogic: ResLogic.Op1,
+          pcUpdate: PcUpdate.JumpRel,
+          apUpdate: ApUpdate.Add2,
+          fpUpdate: FpUpdate.ApPlus2,
+        },
+        operands
+      ).unwrap();
+
+      expect(vm.runContext.getPc()).toEqual(new Relocatable(0, 4));
+      expect(vm.runContext.getAp()).toEqual(new Relocatable(1, 2));
+      expect(vm.runContext.getFp()).toEqual(new Relocatable(1, 2));
+    });
+    test('should jump backwards with a negative relative offset', () => {
+      const vm = new VirtualMachine();
+      vm.runContext.setPc(new Relocatable(0, 10));
+      const operands: Operands = {
+        dst: new Felt(1n),
+        res: new Some(new Felt(Felt.PRIME - 4n)),
+        op0: new Felt(1n),
+        op1: new Felt(Felt.PRIME - 4n),
+      };
+      vm.updateRegisters(
+        { ...instruction, pcUpdate: PcUpdate.JumpRel },
+        operands
+      ).unwrap();
+
+      expect(vm.runContext.getPc()).toEqual(new Relocatable(0, 6));
+    });
+    test('should not jump for a jnz with a zero dst', () => {
+      const vm = new VirtualMachine();
+      const operands: Operands = {
+        dst: new Felt(0n),
+        res: new None(),
+        op0: new Felt(1n),
+        op1: new Felt(8n),
+      };
+      vm.updateRegisters(
+        {
+          ...instruction,
+          resLogic: ResLogic.Unconstrained,
+          pcUpdate: PcUpdate.Jnz,
+          apUpdate: ApUpdate.Add1,
+        },
+        operands
+      ).unwrap();
+
+      expect(vm.runContext.getPc()).toEqual(new Relocatable(0, 2));
+      expect(vm.runContext.getAp()).toEqual(new Relocatable(1, 1));
+    });
+    test('should set fp to dst for a ret', () => {
+      const vm = new VirtualMachine();
+      const operands: Operands = {
+        dst: new Relocatable(2, 0),
+        res: new Some(new Relocatable(3, 0)),
+        op0: new Felt(1n),
+        op1: new Relocatable(3, 0),
+      };
+      vm.updateRegisters(
+        {
+          ...instruction,
+          opcode: Opcode.Ret,
+          op1Src: Op1Src.FP,
+          resLogic: ResLogic.Op1,
+          pcUpdate: PcUpdate.Jump,
+          fpUpdate: FpUpdate.Dst,
+        },
+        operands
+      ).unwrap();
+
+      expect(vm.runContext.getPc()).toEqual(new Relocatable(3, 0));
+      expect(vm.runContext.getFp()).toEqual(new Relocatable(2, 0));
+    });
+  });
+});
@@ -1,9 +1,23 @@
+import { BuiltinRunner } from 'builtins/builtin';
+import { ExecutionScopes } from 'hints/executionScopes';
+import { HintData } from 'hints/hintData';
+import { HintProcessor } from 'hints/hintProcessor';
 import { MemorySegmentManager } from 'memory/memoryManager';
-import { Felt } from 'primitives/felt';
-import { Uint64, UnsignedInteger } from 'primitives/uint';
-import { Result, Err, VMError } from 'result-pattern/result';
+import { Felt, Field } from 'primitives/felt';
+import { MaybeRelocatable, Relocatable } from 'primitives/relocatable';
+import { Uint32, Uint64, UnsignedInteger } from 'primitives/uint';
+import { Result, Err, Ok, VMError } from 'result-pattern/result';
+import { None, Option, Some } from 'option-pattern/option';
 import { RunContext } from 'run-context/runContext';
-import { Instruction } from './instruction';
+import {
+  ApUpdate,
+  FpUpdate,
+  Instruction,
+  Op1Src,
+  Opcode,
+  PcUpdate,
+  ResLogic,
+} from './instruction';
 
 export const InstructionError = {
   message: 'VMError: VM Instruction must be a Field Element',
@@ -13,18 +27,131 @@ export const EndOfInstructionsError = {
   message: 'VMError: reached end of instructions',
 };
 
+export const ComputeResError = {
+  message: 'VMError: cannot compute res, relocatables cannot be multiplied',
+};
+
+export const Op0DeductionError = {
+  message: 'VMError: op0 is not in memory and cannot be deduced',
+};
+
+export const Op1DeductionError = {
+  message: 'VMError: op1 is not in memory and cannot be deduced',
+};
+
+export const MulDeductionRelocatableError = {
+  message: 'VMError: cannot deduce an operand of a product of relocatables',
+};
+
+export const MulDeductionZeroError = {
+  message:
+    'VMError: cannot deduce an operand of a product when the other operand is zero',
+};
+
+export const DstDeductionError = {
+  message: 'VMError: dst is not in memory and cannot be deduced',
+};
+
+export const UnconstrainedResAssertEqError = {
+  message: 'VMError: res is unconstrained in an AssertEq instruction',
+};
+
+export const DiffAssertValuesError = {
+  message: 'VMError: AssertEq failed, dst and res are different',
+};
+
+export const InvalidCallOp0Error = {
+  message: 'VMError: Call failed to write the return pc into op0',
+};
+
+export const InvalidCallDstError = {
+  message: 'VMError: Call failed to write the return fp into dst',
+};
+
+export const UnconstrainedResApError = {
+  message: 'VMError: ap update with res while res is unconstrained',
+};
+
+export const UnconstrainedResPcError = {
+  message: 'VMError: pc update with res while res is unconstrained',
+};
+
+export const InvalidJumpError = {
+  message: 'VMError: absolute jump destination must be a relocatable',
+};
+
+export const InvalidJumpRelError = {
+  message: 'VMError: relative jump offset must be a felt',
+};
+
+export const InvalidJnzOp1Error = {
+  message: 'VMError: jnz offset op1 must be a felt',
+};
+
+export const InvalidOperationError = {
+  message: 'VMError: forbidden operation between a felt and a relocatable',
+};
+
+export type Operands = {
+  dst: MaybeRelocatable;
+  res: Option<MaybeRelocatable>;
+  op0: MaybeRelocatable;
+  op1: MaybeRelocatable;
+};
+
+// The result of a deduction: the deduced operand and, if it was obtained
+// along the way, the deduced res.
+export type Deduction = {
+  value: Option<MaybeRelocatable>;
+  res: Option<MaybeRelocatable>;
+};
+
+// The state of the registers at the beginning of a step.
+export type TraceEntry = {
+  pc: Relocatable;
+  ap: Relocatable;
+  fp: Relocatable;
+};
+
 export class VirtualMachine {
-  private runContext: RunContext;
+  runContext: RunContext;
   private currentStep: Uint64;
-  private segments: MemorySegmentManager;
+  segments: MemorySegmentManager;
+  trace: TraceEntry[];
+  builtins: BuiltinRunner[];
+  hintProcessor: HintProcessor;
+  // Variables shared by the hints across steps.
+  scopes: ExecutionScopes;
+  // Field of the felts of the run, that of the program.
+  readonly field: Field;
+  // Smallest and largest biased offsets of the instructions run so far,
+  // which the prover range checks.
+  private rcLimits: [number, number] | undefined;
 
-  constructor() {
+  constructor(
+    segments: MemorySegmentManager = new MemorySegmentManager(),
+    runContext: RunContext = RunContext.default(),
+    field: Field = Field.STARKNET
+  ) {
     this.currentStep = UnsignedInteger.ZERO_UINT64;
-    this.segments = new MemorySegmentManager();
-    this.runContext = RunContext.default();
+    this.segments = segments;
+    this.runContext = runContext;
+    this.trace = [];
+    this.builtins = [];
+    this.hintProcessor = new HintProcessor();
+    this.scopes = new ExecutionScopes();
+    this.field = field;
   }
 
-  step(): Result<true, VMError> {
+  // Execute the hints of the current instruction, then the instruction.
+  step(hints: HintData[] = []): Result<true, VMError> {
+    for (const hint of hints) {
+      const execution = this.hintProcessor.execute(this, hint);
+      if (execution.isErr()) {
+        return execution;
+      }
+    }
+
     const maybeEncodedInstruction = this.segments.memory.get(
       this.runContext.getPc()
     );
@@ -32,6 +159,7 @@ export class VirtualMachine {
     if (maybeEncodedInstruction.isNone()) {
       return new Err(EndOfInstructionsError);
     }
+    this.segments.memory.markAsAccessed(this.runContext.getPc());
 
     const encodedInstruction = maybeEncodedInstruction.unwrap();
 
@@ -44,10 +172,534 @@ export class VirtualMachine {
       return maybeUint;
     }
 
-    // decode and run instruction
-    // return this.runInstruction();
-    throw new Error('TODO: Not Implemented');
+    const instruction = Instruction.decodeInstruction(maybeUint.unwrap());
+    if (instruction.isErr()) {
+      return instruction;
+    }
+
+    return this.runInstruction(instruction.unwrap());
+  }
+
+  runInstruction(instruction: Instruction): Result<true, VMError> {
+    this.trace.push({
+      pc: this.runContext.getPc(),
+      ap: this.runContext.getAp(),
+      fp: this.runContext.getFp(),
+    });
+    this.updateRcLimits(instruction);
+
+    const operands = this.computeOperands(instruction);
+    if (operands.isErr()) {
+      return operands;
+    }
+
+    const assertion = this.opcodeAssertions(instruction, operands.unwrap());
+    if (assertion.isErr()) {
+      return assertion;
+    }
+
+    const update = this.updateRegisters(instruction, operands.unwrap());
+    if (update.isErr()) {
+      return update;
+    }
+
+    const nextStep = UnsignedInteger.toUint64(this.currentStep + 1n);
+    if (nextStep.isErr()) {
+      return nextStep;
+    }
+    this.currentStep = nextStep.unwrap();
+
+    return new Ok(true as const);
+  }
+
+  // Compute the operands of an instruction. Operands missing from memory
+  // are deduced from the others and written to memory.
+  computeOperands(instruction: Instruction): Result<Operands, VMError> {
+    const dstAddr = this.runContext.computeDstAddress(instruction);
+    if (dstAddr.isErr()) {
+      return dstAddr;
+    }
+    const dstValue = this.segments.memory.getOrDeduce(dstAddr.unwrap());
+    if (dstValue.isErr()) {
+      return dstValue;
+    }
+    const dstOp = dstValue.unwrap();
+
+    const op0Addr = this.runContext.computeOp0Address(instruction);
+    if (op0Addr.isErr()) {
+      return op0Addr;
+    }
+    const op0Value = this.segments.memory.getOrDeduce(op0Addr.unwrap());
+    if (op0Value.isErr()) {
+      return op0Value;
+    }
+    let op0Op = op0Value.unwrap();
+
+    const op1Addr = this.runContext.computeOp1Address(instruction, op0Op);
+    if (op1Addr.isErr()) {
+      return op1Addr;
+    }
+    const op1Value = this.segments.memory.getOrDeduce(op1Addr.unwrap());
+    if (op1Value.isErr()) {
+      return op1Value;
+    }
+    let op1Op = op1Value.unwrap();
+
+    let res: Option<MaybeRelocatable> = new None();
+
+    if (op0Op.isNone()) {
+      const deduction = this.deduceOp0(instruction, dstOp, op1Op);
+      if (deduction.isErr()) {
+        return deduction;
+      }
+      const { value, res: deducedRes } = deduction.unwrap();
+      if (value.isNone()) {
+        return new Err(Op0DeductionError);
+      }
+      const insert = this.segments.memory.insert(
+        op0Addr.unwrap(),
+        value.unwrap()
+      );
+      if (insert.isErr()) {
+        return insert;
+      }
+      op0Op = value;
+      res = deducedRes;
+    }
+    const op0 = op0Op.unwrap();
+
+    if (op1Op.isNone()) {
+      const deduction = this.deduceOp1(instruction, dstOp, op0Op);
+      if (deduction.isErr()) {
+        return deduction;
+      }
+      const { value, res: deducedRes } = deduction.unwrap();
+      if (value.isNone()) {
+        return new Err(Op1DeductionError);
+      }
+      const insert = this.segments.memory.insert(
+        op1Addr.unwrap(),
+        value.unwrap()
+      );
+      if (insert.isErr()) {
+        return insert;
+      }
+      op1Op = value;
+      if (res.isNone()) {
+        res = deducedRes;
+      }
+    }
+    const op1 = op1Op.unwrap();
+
+    if (res.isNone()) {
+      const computedRes = this.computeRes(instruction, op0, op1);
+      if (computedRes.isErr()) {
+        return computedRes;
+      }
+      res = computedRes.unwrap();
+    }
+
+    let dst: MaybeRelocatable;
+    if (dstOp.isNone()) {
+      const deducedDst = this.deduceDst(instruction, res);
+      if (deducedDst.isNone()) {
+        return new Err(DstDeductionError);
+      }
+      dst = deducedDst.unwrap();
+      const insert = this.segments.memory.insert(dstAddr.unwrap(), dst);
+      if (insert.isErr()) {
+        return insert;
+      }
+    } else {
+      dst = dstOp.unwrap();
+    }
+
+    const memory = this.segments.memory;
+    [dstAddr, op0Addr, op1Addr].forEach((address) =>
+      memory.markAsAccessed(address.unwrap())
+    );
+    return new Ok({ dst, res, op0, op1 });
+  }
+
+  computeRes(
+    instruction: Instruction,
+    op0: MaybeRelocatable,
+    op1: MaybeRelocatable
+  ): Result<Option<MaybeRelocatable>, VMError> {
+    switch (instruction.resLogic) {
+      case ResLogic.Op1:
+        return new Ok(new Some(op1));
+
+      case ResLogic.Add:
+        const sum = this.add(op0, op1);
+        if (sum.isErr()) {
+          return sum;
+        }
+        return new Ok(new Some(sum.unwrap()));
+
+      case ResLogic.Mul:
+        if (op0 instanceof Felt && op1 instanceof Felt) {
+          return new Ok(new Some(op0.mul(op1)));
+        }
+        return new Err(ComputeResError);
+
+      case ResLogic.Unconstrained:
+        return new Ok(new None());
+    }
+  }
+
+  // Deduce op0 when it is not in memory:
+  // - Call: op0 is the return pc, i.e. pc + instruction size.
+  // - AssertEq: op0 = dst - op1 when res = op0 + op1,
+  //   op0 = dst / op1 when res = op0 * op1.
+  deduceOp0(
+    instruction: Instruction,
+    dst: Option<MaybeRelocatable>,
+    op1: Option<MaybeRelocatable>
+  ): Result<Deduction, VMError> {
+    switch (instruction.opcode) {
+      case Opcode.Call:
+        const returnPc = this.runContext
+          .getPc()
+          .add(this.instructionSize(instruction));
+        if (returnPc.isErr()) {
+          return returnPc;
+        }
+        return new Ok({ value: new Some(returnPc.unwrap()), res: new None() });
+
+      case Opcode.AssertEq:
+        if (dst.isSome() && op1.isSome()) {
+          const op0 = this.deduceOperand(
+            instruction.resLogic,
+            dst.unwrap(),
+            op1.unwrap()
+          );
+          if (op0.isErr()) {
+            return op0;
+          }
+          if (op0.unwrap().isSome()) {
+            return new Ok({ value: op0.unwrap(), res: dst });
+          }
+        }
+        break;
+    }
+
+    return new Ok({ value: new None(), res: new None() });
+  }
+
+  // Deduce op1 when it is not in memory, only possible for AssertEq:
+  // - res = op1: op1 = dst
+  // - res = op0 + op1: op1 = dst - op0
+  // - res = op0 * op1: op1 = dst / op0
+  deduceOp1(
+    instruction: Instruction,
+    dst: Option<MaybeRelocatable>,
+    op0: Option<MaybeRelocatable>
+  ): Result<Deduction, VMError> {
+    if (instruction.opcode === Opcode.AssertEq && dst.isSome()) {
+      if (instruction.resLogic === ResLogic.Op1) {
+        return new Ok({ value: dst, res: dst });
+      }
+
+      if (op0.isSome()) {
+        const op1 = this.deduceOperand(
+          instruction.resLogic,
+          dst.unwrap(),
+          op0.unwrap()
+        );
+        if (op1.isErr()) {
+          return op1;
+        }
+        if (op1.unwrap().isSome()) {
+          return new Ok({ value: op1.unwrap(), res: dst });
+        }
+      }
+    }
+
+    return new Ok({ value: new None(), res: new None() });
+  }
+
+  // Deduce the missing operand of res = op0 + op1 or res = op0 * op1,
+  // knowing that res = dst, from the other operand.
+  private deduceOperand(
+    resLogic: ResLogic,
+    dst: MaybeRelocatable,
+    other: MaybeRelocatable
+  ): Result<Option<MaybeRelocatable>, VMError> {
+    switch (resLogic) {
+      case ResLogic.Add:
+        const difference = this.sub(dst, other);
+        if (difference.isErr()) {
+          return difference;
+        }
+        return new Ok(new Some(difference.unwrap()));
+
+      case ResLogic.Mul:
+        if (!(dst instanceof Felt) || !(other instanceof Felt)) {
+          return new Err(MulDeductionRelocatableError);
+        }
+        if (other.isZero()) {
+          return new Err(MulDeductionZeroError);
+        }
+        const quotient = dst.div(other);
+        if (quotient.isErr()) {
+          return quotient;
+        }
+        return new Ok(new Some(quotient.unwrap()));
+
+      default:
+        return new Ok(new None());
+    }
+  }
+
+  // Deduce dst when it is not in memory:
+  // - AssertEq: dst = res
+  // - Call: dst is the return fp, i.e. the current fp.
+  deduceDst(
+    instruction: Instruction,
+    res: Option<MaybeRelocatable>
+  ): Option<MaybeRelocatable> {
+    switch (instruction.opcode) {
+      case Opcode.AssertEq:
+        return res;
+
+      case Opcode.Call:
+        return new Some(this.runContext.getFp());
+
+      default:
+        return new None();
+    }
+  }
+
+  opcodeAssertions(
+    instruction: Instruction,
+    operands: Operands
+  ): Result<true, VMError> {
+    switch (instruction.opcode) {
+      case Opcode.AssertEq:
+        if (operands.res.isNone()) {
+          return new Err(UnconstrainedResAssertEqError);
+        }
+        if (!this.eq(operands.dst, operands.res.unwrap())) {
+          return new Err(DiffAssertValuesError);
+        }
+        break;
+
+      case Opcode.Call:
+        const returnPc = this.runContext
+          .getPc()
+          .add(this.instructionSize(instruction));
+        if (returnPc.isErr()) {
+          return returnPc;
+        }
+        if (!this.eq(operands.op0, returnPc.unwrap())) {
+          return new Err(InvalidCallOp0Error);
+        }
+        if (!this.eq(operands.dst, this.runContext.getFp())) {
+          return new Err(InvalidCallDstError);
+        }
+        break;
+    }
+
+    return new Ok(true as const);
+  }
+
+  // Update the registers from the current instruction. fp is updated first,
+  // as it relies on the value of ap before its update.
+  updateRegisters(
+    instruction: Instruction,
+    operands: Operands
+  ): Result<true, VMError> {
+    const fpUpdate = this.updateFp(instruction, operands);
+    if (fpUpdate.isErr()) {
+      return fpUpdate;
+    }
+
+    const apUpdate = this.updateAp(instruction, operands);
+    if (apUpdate.isErr()) {
+      return apUpdate;
+    }
+
+    return this.updatePc(instruction, operands);
+  }
+
+  updateFp(
+    instruction: Instruction,
+    operands: Operands
+  ): Result<true, VMError> {
+    switch (instruction.fpUpdate) {
+      case FpUpdate.ApPlus2:
+        const fp = this.runContext
+          .getAp()
+          .add(UnsignedInteger.toUint32(2).unwrap());
+        if (fp.isErr()) {
+          return fp;
+        }
+        this.runContext.setFp(fp.unwrap());
+        break;
+
+      case FpUpdate.Dst:
+        if (operands.dst instanceof Relocatable) {
+          this.runContext.setFp(operands.dst);
+        } else {
+          const fp = this.runContext.getFp().add(operands.dst);
+          if (fp.isErr()) {
+            return fp;
+          }
+          this.runContext.setFp(fp.unwrap());
+        }
+        break;
+    }
+
+    return new Ok(true as const);
+  }
+
+  updateAp(
+    instruction: Instruction,
+    operands: Operands
+  ): Result<true, VMError> {
+    let ap: Result<Relocatable, VMError>;
+    switch (instruction.apUpdate) {
+      case ApUpdate.Add:
+        if (operands.res.isNone()) {
+          return new Err(UnconstrainedResApError);
+        }
+        ap = this.runContext.getAp().add(operands.res.unwrap());
+        break;
+
+      case ApUpdate.Add1:
+        ap = this.runContext.getAp().add(UnsignedInteger.toUint32(1).unwrap());
+        break;
+
+      case ApUpdate.Add2:
+        ap = this.runContext.getAp().add(UnsignedInteger.toUint32(2).unwrap());
+        break;
+
+      case ApUpdate.Regular:
+        return new Ok(true as const);
+    }
+
+    if (ap.isErr()) {
+      return ap;
+    }
+    this.runContext.setAp(ap.unwrap());
+    return new Ok(true as const);
+  }
+
+  updatePc(
+    instruction: Instruction,
+    operands: Operands
+  ): Result<true, VMError> {
+    let pc: Result<Relocatable, VMError>;
+    switch (instruction.pcUpdate) {
+      case PcUpdate.Regular:
+        pc = this.runContext.incrementPc(this.instructionSize(instruction));
+        break;
+
+      case PcUpdate.Jump:
+        if (operands.res.isNone()) {
+          return new Err(UnconstrainedResPcError);
+        }
+        const destination = operands.res.unwrap();
+        if (!(destination instanceof Relocatable)) {
+          return new Err(InvalidJumpError);
+        }
+        pc = new Ok(destination);
+        break;
+
+      case PcUpdate.JumpRel:
+        if (operands.res.isNone()) {
+          return new Err(UnconstrainedResPcError);
+        }
+        const offset = operands.res.unwrap();
+        if (!(offset instanceof Felt)) {
+          return new Err(InvalidJumpRelError);
+        }
+        pc = this.runContext.getPc().add(offset);
+        break;
+
+      case PcUpdate.Jnz:
+        if (this.isZero(operands.dst)) {
+          pc = this.runContext.incrementPc(this.instructionSize(instruction));
+        } else {
+          if (!(operands.op1 instanceof Felt)) {
+            return new Err(InvalidJnzOp1Error);
+          }
+          pc = this.runContext.getPc().add(operands.op1);
+        }
+        break;
+    }
+
+    if (pc.isErr()) {
+      return pc;
+    }
+    this.runContext.setPc(pc.unwrap());
+    return new Ok(true as const);
+  }
+
+  getCurrentStep(): Uint64 {
+    return this.currentStep;
+  }
+
+  getRcLimits(): Option<[number, number]> {
+    return this.rcLimits === undefined ? new None() : new Some(this.rcLimits);
+  }
+
+  // Offsets are encoded with a bias of 2^15.
+  private updateRcLimits({ offDst, offOp0, offOp1 }: Instruction) {
+    const offsets = [offDst, offOp0, offOp1].map((offset) => offset + 0x8000);
+    const [min, max] = this.rcLimits ?? [offsets[0], offsets[0]];
+    this.rcLimits = [Math.min(min, ...offsets), Math.max(max, ...offsets)];
   }
 
-  computeOperands(instruction: Instruction) {}
+  // Instructions using an immediate value span over two words.
+  instructionSize(instruction: Instruction): Uint32 {
+    const size = instruction.op1Src === Op1Src.Imm ? 2 : 1;
+    return UnsignedInteger.toUint32(size).unwrap();
+  }
+
+  private add(
+    lhs: MaybeRelocatable,
+    rhs: MaybeRelocatable
+  ): Result<MaybeRelocatable, VMError> {
+    if (lhs instanceof Relocatable) {
+      return lhs.add(rhs);
+    }
+    if (rhs instanceof Relocatable) {
+      return rhs.add(lhs);
+    }
+    return new Ok(lhs.add(rhs));
+  }
+
+  private sub(
+    lhs: MaybeRelocatable,
+    rhs: MaybeRelocatable
+  ): Result<MaybeRelocatable, VMError> {
+    if (lhs instanceof Felt) {
+      if (rhs instanceof Relocatable) {
+        return new Err(InvalidOperationError);
+      }
+      return new Ok(lhs.sub(rhs));
+    }
+    if (rhs instanceof Relocatable) {
+      // The difference of two relocatables of the same segment is a felt.
+      const diff = lhs.sub(rhs);
+      if (diff.isErr()) {
+        return diff;
+      }
+      return new Ok(this.field.felt(BigInt(diff.unwrap().getOffset())));
+    }
+    return lhs.sub(rhs);
+  }
+
+  private eq(lhs: MaybeRelocatable, rhs: MaybeRelocatable): boolean {
+    if (lhs instanceof Felt) {
+      return rhs instanceof Felt && lhs.eq(rhs);
+    }
+    return lhs.eq(rhs);
+  }
+
+  private isZero(value: MaybeRelocatable): boolean {
+    return value instanceof Felt && value.isZero();
+  }
 }